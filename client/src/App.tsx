@@ -1,37 +1,79 @@
 import { FormEvent, useEffect, useMemo, useState } from "react";
-import { BsFire } from "react-icons/bs";
+import { BsFire, BsSnow } from "react-icons/bs";
 import { FiCalendar, FiTarget, FiTrendingUp, FiUser } from "react-icons/fi";
 import {
+  type ArchivedHabit,
   type AuthUser,
+  createExcusedRange,
   createHabit,
+  deleteExcusedRange,
   deleteHabit,
   getAllHeatmap,
+  getAllStreaks,
   getAllSummary,
   getAllYears,
   getDayChecklist,
+  getJournalEntry,
   getHabitHeatmap,
+  getHabitStreaks,
+  getInsights,
+  getYearReview,
   getHabitSummary,
   getHabitYears,
   getStreak,
+  listArchivedHabits,
+  listExcusedRanges,
   listHabits,
   login,
   me,
+  purgeHabit,
   register,
+  saveJournalEntry,
+  restoreHabit,
   setAuthToken,
+  updateTimeZone,
   updateChecklistItem,
+  updateChecklistNote,
+  updateHabit,
   type CheckinPoint,
   type DayChecklistItem,
+  type ExcusedRange,
   type Habit,
-  type HabitSummary
+  type HabitPolarity,
+  type HabitSchedule,
+  type HabitInsights,
+  type HabitSummary,
+  type StreakHistory,
+  type YearReview as YearReviewData
 } from "./api";
 import HabitHeatmap from "./components/HeatmapChart";
 import { AnalyticsPanel } from "./components/AnalyticsPanel";
+import { BackfillEditor } from "./components/BackfillEditor";
+import { BackupPanel } from "./components/BackupPanel";
+import { BadgePanel } from "./components/BadgePanel";
+import { CalendarFeedPanel } from "./components/CalendarFeedPanel";
+import { ExternalImportPanel } from "./components/ExternalImportPanel";
+import { InsightsPanel } from "./components/InsightsPanel";
+import { YearReview } from "./components/YearReview";
+import { describeSchedule, ScheduleFields } from "./components/ScheduleFields";
+import { CategoryFields, DEFAULT_HABIT_COLOR } from "./components/CategoryFields";
+import {
+  DEFAULT_SUMMARY_GOAL,
+  resolveSummaryRange,
+  type SummaryRange,
+  SummaryRangePicker
+} from "./components/SummaryRangePicker";
+import { addDaysISO, browserTimeZone, todayInTimeZone } from "./dates";
+
+type Tab = "dashboard" | "analytics" | "review";
 
-const todayISO = new Date().toISOString().slice(0, 10);
-const currentYear = new Date().getFullYear();
-type Tab = "dashboard" | "analytics";
+const tabTitles: Record<Tab, string> = { dashboard: "Dashboard", analytics: "Analytics", review: "Year in Review" };
 
 export function App() {
+  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
+  const timeZone = authUser?.timeZone ?? browserTimeZone;
+  const todayISO = useMemo(() => todayInTimeZone(timeZone), [timeZone]);
+  const currentYear = Number(todayISO.slice(0, 4));
   const [habits, setHabits] = useState<Habit[]>([]);
   const [selectedHabitId, setSelectedHabitId] = useState<number | null>(null);
   const [heatmapData, setHeatmapData] = useState<CheckinPoint[]>([]);
@@ -39,19 +81,46 @@ export function App() {
   const [checklist, setChecklist] = useState<DayChecklistItem[]>([]);
   const [newHabitName, setNewHabitName] = useState("");
   const [newHabitStartDate, setNewHabitStartDate] = useState(todayISO);
+  const [newHabitSchedule, setNewHabitSchedule] = useState<HabitSchedule>({ type: "daily" });
+  const [newHabitTarget, setNewHabitTarget] = useState("");
+  const [newHabitUnit, setNewHabitUnit] = useState("");
+  const [newHabitPolarity, setNewHabitPolarity] = useState<HabitPolarity>("build");
+  const [newHabitCategory, setNewHabitCategory] = useState({ category: "", color: DEFAULT_HABIT_COLOR });
+  const [selectedCategory, setSelectedCategory] = useState("");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>("dashboard");
   const [isHabitModalOpen, setIsHabitModalOpen] = useState(false);
   const [isManageHabitsOpen, setIsManageHabitsOpen] = useState(false);
+  const [manageView, setManageView] = useState<"active" | "archived">("active");
+  const [archivedHabits, setArchivedHabits] = useState<ArchivedHabit[]>([]);
+  const [restoreWithGap, setRestoreWithGap] = useState(true);
+  const [excusedRanges, setExcusedRanges] = useState<ExcusedRange[]>([]);
+  const [isExcusedModalOpen, setIsExcusedModalOpen] = useState(false);
+  const [isBackfillOpen, setIsBackfillOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isExternalImportOpen, setIsExternalImportOpen] = useState(false);
+  const [isCalendarFeedOpen, setIsCalendarFeedOpen] = useState(false);
+  const [isBadgeOpen, setIsBadgeOpen] = useState(false);
+  const [newExcused, setNewExcused] = useState({ start: todayISO, end: todayISO, habitId: "", reason: "" });
+  const [editingHabit, setEditingHabit] = useState<{
+    id: number;
+    name: string;
+    createdAt: string;
+    schedule: HabitSchedule;
+    dailyTarget: string;
+    unit: string;
+    category: string;
+    color: string;
+  } | null>(null);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [authMode, setAuthMode] = useState<"login" | "register">("login");
   const [authUsername, setAuthUsername] = useState("");
   const [authPassword, setAuthPassword] = useState("");
-  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
   const [profileMenuOpen, setProfileMenuOpen] = useState(false);
   const [theme, setTheme] = useState<"dark" | "light">("dark");
   const [streakCount, setStreakCount] = useState(0);
+  const [streakFreezes, setStreakFreezes] = useState(0);
   const [heatmapRange, setHeatmapRange] = useState<string>(String(currentYear));
   const [availableYears, setAvailableYears] = useState<number[]>([currentYear]);
   const [heatmapWindow, setHeatmapWindow] = useState<{ start: string; end: string }>({
@@ -59,6 +128,19 @@ export function App() {
     end: `${currentYear}-12-31`
   });
   const [selectedDate, setSelectedDate] = useState<string>(todayISO);
+  const [journalBody, setJournalBody] = useState("");
+  const [summaryRange, setSummaryRange] = useState<SummaryRange>({
+    preset: "year",
+    start: addDaysISO(todayISO, -29),
+    end: todayISO,
+    granularity: "month",
+    goal: DEFAULT_SUMMARY_GOAL
+  });
+  const [rangeSummary, setRangeSummary] = useState<HabitSummary | null>(null);
+  const [streakHistory, setStreakHistory] = useState<StreakHistory | null>(null);
+  const [insights, setInsights] = useState<HabitInsights | null>(null);
+  const [reviewYear, setReviewYear] = useState(currentYear);
+  const [yearReview, setYearReview] = useState<YearReviewData | null>(null);
 
   const heatmapRangeOptions = useMemo(() => {
     const baseYears = new Set<number>(availableYears);
@@ -66,18 +148,50 @@ export function App() {
     return [...baseYears]
       .sort((a, b) => b - a)
       .map((year) => ({ value: String(year), label: String(year) }));
-  }, [availableYears]);
+  }, [availableYears, currentYear]);
 
+  const categories = useMemo(
+    () =>
+      [...new Set(habits.map((habit) => habit.category).filter((category): category is string => Boolean(category)))].sort(
+        (a, b) => a.localeCompare(b)
+      ),
+    [habits]
+  );
+  const visibleHabits = useMemo(
+    () =>
+      selectedCategory
+        ? habits.filter((habit) => (habit.category ?? "").toLowerCase() === selectedCategory.toLowerCase())
+        : habits,
+    [habits, selectedCategory]
+  );
   const selectedHabit = useMemo(
     () => habits.find((habit) => habit.id === selectedHabitId) ?? null,
     [habits, selectedHabitId]
   );
+  const heatmapTarget = useMemo(
+    () =>
+      selectedHabit && selectedHabit.dailyTarget !== null
+        ? { value: selectedHabit.dailyTarget, unit: selectedHabit.unit }
+        : null,
+    [selectedHabit]
+  );
+  const heatmapExcusedRanges = useMemo(
+    () =>
+      excusedRanges.filter(
+        (range) => range.habitId === null || (selectedHabitId !== -1 && range.habitId === selectedHabitId)
+      ),
+    [excusedRanges, selectedHabitId]
+  );
   const isAllHabits = selectedHabitId === -1;
   const allTodayDone = useMemo(
     () => checklist.length > 0 && checklist.every((item) => item.completed),
     [checklist]
   );
   const authRequired = !authUser;
+  // The default year/month view is the dashboard summary; other ranges are fetched on demand.
+  const usesDashboardSummary =
+    summaryRange.preset === "year" && summaryRange.granularity === "month" && summaryRange.goal === DEFAULT_SUMMARY_GOAL;
+  const analyticsSummary = usesDashboardSummary ? summary : rangeSummary;
 
   useEffect(() => {
     void initializeAuth();
@@ -95,7 +209,28 @@ export function App() {
     if (!authUser) return;
     if (!selectedHabitId) return;
     void refreshHabitStats(selectedHabitId);
-  }, [authUser, selectedHabitId, heatmapRange]);
+  }, [authUser, selectedHabitId, heatmapRange, selectedCategory]);
+
+  useEffect(() => {
+    if (!authUser || activeTab !== "analytics" || !selectedHabitId || !summary) return;
+    if (usesDashboardSummary) return;
+    void refreshRangeSummary(selectedHabitId);
+  }, [authUser, activeTab, selectedHabitId, summary, summaryRange, todayISO]);
+
+  useEffect(() => {
+    if (!authUser || activeTab !== "analytics" || !selectedHabitId || !summary) return;
+    void refreshStreakHistory(selectedHabitId);
+    void refreshInsights(selectedHabitId);
+  }, [authUser, activeTab, selectedHabitId, summary]);
+
+  useEffect(() => {
+    if (!authUser || activeTab !== "review") return;
+    void refreshYearReview(reviewYear);
+  }, [authUser, activeTab, reviewYear, habits]);
+
+  useEffect(() => {
+    if (selectedCategory && !categories.includes(selectedCategory)) setSelectedCategory("");
+  }, [categories, selectedCategory]);
 
   useEffect(() => {
     if (heatmapRangeOptions.length === 0) return;
@@ -109,7 +244,7 @@ export function App() {
     if (!authUser) return;
     if (habits.length === 0) return;
     void refreshChecklist(selectedDate);
-  }, [authUser, habits.length, selectedDate]);
+  }, [authUser, habits.length, selectedDate, selectedCategory]);
 
   async function initializeAuth() {
     try {
@@ -121,7 +256,9 @@ export function App() {
       }
       setAuthToken(stored);
       const auth = await me();
-      setAuthUser(auth.user);
+      setAuthUser(
+        auth.user.timeZone === browserTimeZone ? auth.user : (await updateTimeZone(browserTimeZone)).user
+      );
       await bootstrapData();
     } catch {
       setAuthToken(null);
@@ -140,13 +277,15 @@ export function App() {
       setHabits(data);
       setSelectedHabitId(-1);
       if (data.length > 0) {
-        const [daily] = await Promise.all([getDayChecklist(selectedDate)]);
+        const [daily] = await Promise.all([getDayChecklist(selectedDate, selectedCategory)]);
         setChecklist(daily);
       } else {
         setChecklist([]);
       }
-      const streak = await getStreak();
+      const [streak, excused] = await Promise.all([getStreak(), listExcusedRanges()]);
       setStreakCount(streak.streak);
+      setStreakFreezes(streak.freezesRemaining);
+      setExcusedRanges(excused);
     } catch (e) {
       setError((e as Error).message);
     }
@@ -162,8 +301,8 @@ export function App() {
       if (habitId === -1) {
         const [years, heatmap, summaryData] = await Promise.all([
           getAllYears(),
-          getAllHeatmap({ year: selectedYear }),
-          getAllSummary(selectedYear)
+          getAllHeatmap({ year: selectedYear, category: selectedCategory }),
+          getAllSummary({ year: selectedYear, category: selectedCategory })
         ]);
         setAvailableYears(years);
         setHeatmapData(heatmap);
@@ -172,7 +311,7 @@ export function App() {
         const [years, heatmap, summaryData] = await Promise.all([
           getHabitYears(habitId),
           getHabitHeatmap(habitId, { year: selectedYear }),
-          getHabitSummary(habitId, selectedYear)
+          getHabitSummary(habitId, { year: selectedYear })
         ]);
         setAvailableYears(years);
         setHeatmapData(heatmap);
@@ -183,11 +322,51 @@ export function App() {
     }
   }
 
+  async function refreshRangeSummary(habitId: number) {
+    const options = resolveSummaryRange(summaryRange, todayISO, Number(heatmapRange));
+    try {
+      setError(null);
+      const data =
+        habitId === -1
+          ? await getAllSummary({ ...options, category: selectedCategory })
+          : await getHabitSummary(habitId, options);
+      setRangeSummary(data);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function refreshStreakHistory(habitId: number) {
+    try {
+      const history = habitId === -1 ? await getAllStreaks(selectedCategory) : await getHabitStreaks(habitId);
+      setStreakHistory(history);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function refreshInsights(habitId: number) {
+    try {
+      setInsights(await getInsights(habitId === -1 ? { category: selectedCategory } : { habitId }));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function refreshYearReview(year: number) {
+    try {
+      setYearReview(await getYearReview(year));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
   async function refreshChecklist(targetDate: string) {
     try {
       setError(null);
-      const data = await getDayChecklist(targetDate);
+      const [data, journal] = await Promise.all([getDayChecklist(targetDate, selectedCategory), getJournalEntry(targetDate)]);
       setChecklist(data);
+      setJournalBody(journal.body);
     } catch (e) {
       setError((e as Error).message);
     }
@@ -200,10 +379,28 @@ export function App() {
 
     try {
       setError(null);
-      const created = await createHabit(name, newHabitStartDate);
+      const created = await createHabit({
+        name,
+        createdAt: newHabitStartDate,
+        polarity: newHabitPolarity,
+        category: newHabitCategory.category.trim() || null,
+        color: newHabitCategory.color,
+        ...(newHabitPolarity === "build"
+          ? {
+              schedule: newHabitSchedule,
+              unit: newHabitUnit.trim() || null,
+              dailyTarget: newHabitTarget ? Number(newHabitTarget) : null
+            }
+          : {})
+      });
       setHabits((prev) => [...prev, created]);
       setNewHabitName("");
       setNewHabitStartDate(todayISO);
+      setNewHabitSchedule({ type: "daily" });
+      setNewHabitTarget("");
+      setNewHabitUnit("");
+      setNewHabitPolarity("build");
+      setNewHabitCategory({ category: "", color: DEFAULT_HABIT_COLOR });
       setIsHabitModalOpen(false);
       setSelectedHabitId(-1);
       setHeatmapRange(String(currentYear));
@@ -211,6 +408,53 @@ export function App() {
       await refreshHabitStats(-1);
       const streak = await getStreak();
       setStreakCount(streak.streak);
+      setStreakFreezes(streak.freezesRemaining);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  function startEditingHabit(habit: Habit) {
+    setEditingHabit({
+      id: habit.id,
+      name: habit.name,
+      createdAt: habit.createdAt,
+      schedule: habit.schedule,
+      dailyTarget: habit.dailyTarget === null ? "" : String(habit.dailyTarget),
+      unit: habit.unit ?? "",
+      category: habit.category ?? "",
+      color: habit.color ?? DEFAULT_HABIT_COLOR
+    });
+  }
+
+  async function handleUpdateHabit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!editingHabit) return;
+    const target = habits.find((h) => h.id === editingHabit.id);
+    if (!target) return;
+
+    try {
+      setError(null);
+      const updated = await updateHabit(editingHabit.id, {
+        name: editingHabit.name.trim(),
+        createdAt: editingHabit.createdAt,
+        category: editingHabit.category.trim() || null,
+        color: editingHabit.color,
+        ...(target.polarity === "build"
+          ? {
+              schedule: editingHabit.schedule,
+              unit: editingHabit.unit.trim() || null,
+              dailyTarget: editingHabit.dailyTarget ? Number(editingHabit.dailyTarget) : null
+            }
+          : {})
+      });
+      setHabits((prev) => prev.map((h) => (h.id === updated.id ? updated : h)));
+      setEditingHabit(null);
+      await refreshChecklist(selectedDate);
+      if (selectedHabitId) await refreshHabitStats(selectedHabitId);
+      const streak = await getStreak();
+      setStreakCount(streak.streak);
+      setStreakFreezes(streak.freezesRemaining);
     } catch (e) {
       setError((e as Error).message);
     }
@@ -220,7 +464,7 @@ export function App() {
     const target = habits.find((h) => h.id === habitId);
     if (!target) return;
     const confirmed = window.confirm(
-      `Delete "${target.name}" from today onward? Historical data up to yesterday will remain.`
+      `Archive "${target.name}" from today onward? Its history stays available under Archived habits.`
     );
     if (!confirmed) return;
 
@@ -244,25 +488,153 @@ export function App() {
       await refreshHabitStats(-1);
       const streak = await getStreak();
       setStreakCount(streak.streak);
-      if (nextHabits.length === 0) setIsManageHabitsOpen(false);
+      setStreakFreezes(streak.freezesRemaining);
     } catch (e) {
       setError((e as Error).message);
     }
   }
 
-  async function toggleHabit(item: DayChecklistItem, checked: boolean) {
+  async function openArchivedHabits() {
     try {
       setError(null);
-      await updateChecklistItem(item.habitId, selectedDate, checked);
+      setManageView("archived");
+      setEditingHabit(null);
+      setArchivedHabits(await listArchivedHabits());
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function handleRestoreHabit(habitId: number) {
+    try {
+      setError(null);
+      const restored = await restoreHabit(habitId, restoreWithGap);
+      setHabits((prev) => [...prev, restored].sort((a, b) => a.id - b.id));
+      setArchivedHabits((prev) => prev.filter((h) => h.id !== habitId));
+      if (!selectedHabitId) setSelectedHabitId(-1);
+      await refreshChecklist(selectedDate);
+      await refreshHabitStats(selectedHabitId && selectedHabitId !== habitId ? selectedHabitId : -1);
+      const streak = await getStreak();
+      setStreakCount(streak.streak);
+      setStreakFreezes(streak.freezesRemaining);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function handlePurgeHabit(habitId: number) {
+    const target = archivedHabits.find((h) => h.id === habitId);
+    if (!target) return;
+    const confirmed = window.confirm(
+      `Permanently delete "${target.name}" and all of its checkins? This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    try {
+      setError(null);
+      await purgeHabit(habitId);
+      setArchivedHabits((prev) => prev.filter((h) => h.id !== habitId));
+      if (habits.length > 0) await refreshHabitStats(-1);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function handleCreateExcused(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    try {
+      setError(null);
+      const created = await createExcusedRange({
+        start: newExcused.start,
+        end: newExcused.end,
+        habitId: newExcused.habitId ? Number(newExcused.habitId) : null,
+        reason: newExcused.reason.trim() || null
+      });
+      setExcusedRanges((prev) => [created, ...prev]);
+      setNewExcused({ start: todayISO, end: todayISO, habitId: "", reason: "" });
+      await refreshAfterExcusedChange();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function handleDeleteExcused(excusedId: number) {
+    try {
+      setError(null);
+      await deleteExcusedRange(excusedId);
+      setExcusedRanges((prev) => prev.filter((range) => range.id !== excusedId));
+      await refreshAfterExcusedChange();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function refreshAfterExcusedChange() {
+    await refreshChecklist(selectedDate);
+    if (selectedHabitId) await refreshHabitStats(selectedHabitId);
+    const streak = await getStreak();
+    setStreakCount(streak.streak);
+    setStreakFreezes(streak.freezesRemaining);
+  }
+
+  function closeManageHabits() {
+    setIsManageHabitsOpen(false);
+    setEditingHabit(null);
+    setManageView("active");
+  }
+
+  async function toggleHabit(item: DayChecklistItem, checked: boolean, value?: number) {
+    try {
+      setError(null);
+      const result = await updateChecklistItem(item.habitId, selectedDate, checked, value);
       setChecklist((prev) =>
         prev.map((entry) =>
-          entry.habitId === item.habitId ? { ...entry, completed: checked } : entry
+          entry.habitId === item.habitId
+            ? { ...entry, completed: result.completed, value: result.value }
+            : entry
         )
       );
       if (selectedHabitId === item.habitId) await refreshHabitStats(item.habitId);
       if (selectedHabitId === -1) await refreshHabitStats(-1);
       const streak = await getStreak();
       setStreakCount(streak.streak);
+      setStreakFreezes(streak.freezesRemaining);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function handleBackfillSaved() {
+    setIsBackfillOpen(false);
+    try {
+      await refreshChecklist(selectedDate);
+      if (selectedHabitId) await refreshHabitStats(selectedHabitId);
+      const streak = await getStreak();
+      setStreakCount(streak.streak);
+      setStreakFreezes(streak.freezesRemaining);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function saveChecklistNote(item: DayChecklistItem, note: string) {
+    try {
+      setError(null);
+      const result = await updateChecklistNote(item.habitId, selectedDate, note);
+      setChecklist((prev) =>
+        prev.map((entry) => (entry.habitId === item.habitId ? { ...entry, note: result.note } : entry))
+      );
+      if (selectedHabitId === item.habitId) await refreshHabitStats(item.habitId);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function saveJournal(body: string) {
+    try {
+      setError(null);
+      const saved = await saveJournalEntry(selectedDate, body);
+      setJournalBody(saved.body);
     } catch (e) {
       setError((e as Error).message);
     }
@@ -274,8 +646,8 @@ export function App() {
       setError(null);
       const result =
         authMode === "login"
-          ? await login(authUsername.trim(), authPassword)
-          : await register(authUsername.trim(), authPassword);
+          ? await login(authUsername.trim(), authPassword, browserTimeZone)
+          : await register(authUsername.trim(), authPassword, browserTimeZone);
       setAuthToken(result.token);
       localStorage.setItem("leetbit_token", result.token);
       setAuthUser(result.user);
@@ -296,29 +668,22 @@ export function App() {
     setSelectedHabitId(null);
     setHeatmapData([]);
     setSummary(null);
+    setRangeSummary(null);
+    setStreakHistory(null);
+    setInsights(null);
+    setYearReview(null);
     setChecklist([]);
+    setExcusedRanges([]);
+    setSelectedCategory("");
     setProfileMenuOpen(false);
     setIsAuthModalOpen(true);
   }
 
-  function handleExportData() {
-    const payload = {
-      exportedAt: new Date().toISOString(),
-      selectedHabit,
-      selectedYear: Number(heatmapRange),
-      streak: streakCount,
-      habits,
-      checklistForToday: checklist,
-      heatmapData,
-      summary
-    };
-    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `leetbit-export-${todayISO}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  async function handleImported() {
+    setIsBackupOpen(false);
+    setIsExternalImportOpen(false);
+    await bootstrapData();
+    await refreshHabitStats(-1);
   }
 
   if (loading) {
@@ -352,11 +717,23 @@ export function App() {
             >
               Analytics
             </button>
+            <button
+              type="button"
+              className={activeTab === "review" ? "nav-link active" : "nav-link"}
+              onClick={() => setActiveTab("review")}
+            >
+              Year in Review
+            </button>
           </nav>
         </div>
         <div className="nav-right">
           <div className={allTodayDone ? "nav-chip nav-chip-done" : "nav-chip nav-chip-pending"}>
             <BsFire className="streak-fire-icon" /> {streakCount}
+            {streakFreezes > 0 && (
+              <span className="streak-freezes" title={`${streakFreezes} streak freeze${streakFreezes === 1 ? "" : "s"} left`}>
+                <BsSnow className="streak-fire-icon" /> {streakFreezes}
+              </span>
+            )}
           </div>
           <button
             type="button"
@@ -365,8 +742,8 @@ export function App() {
           >
             {theme === "dark" ? "Light" : "Dark"}
           </button>
-          <button type="button" className="export-btn" onClick={handleExportData} disabled={!authUser}>
-            Export Data
+          <button type="button" className="export-btn" onClick={() => setIsBackupOpen(true)} disabled={!authUser}>
+            Backup
           </button>
           <button
             type="button"
@@ -390,6 +767,42 @@ export function App() {
                 {authUser ? (
                   <>
                     <div className="profile-user">@{authUser.username}</div>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setIsExcusedModalOpen(true);
+                        setProfileMenuOpen(false);
+                      }}
+                    >
+                      Excused days
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setIsExternalImportOpen(true);
+                        setProfileMenuOpen(false);
+                      }}
+                    >
+                      Import from another app
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setIsCalendarFeedOpen(true);
+                        setProfileMenuOpen(false);
+                      }}
+                    >
+                      Calendar feed
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setIsBadgeOpen(true);
+                        setProfileMenuOpen(false);
+                      }}
+                    >
+                      Share heatmap badge
+                    </button>
                     <button type="button" onClick={handleLogout}>Logout</button>
                   </>
                 ) : (
@@ -425,7 +838,7 @@ export function App() {
       <section className="layout">
         <div className="panel main-panel">
           <div className="panel-header">
-            <h2>{activeTab === "dashboard" ? "Dashboard" : "Analytics"}</h2>
+            <h2>{tabTitles[activeTab]}</h2>
           </div>
 
           {!authUser && (
@@ -482,14 +895,30 @@ export function App() {
                   <HabitHeatmap
                     startDate={heatmapWindow.start}
                     endDate={heatmapWindow.end}
-                    data={heatmapData.map((item) => ({ date: item.date, count: item.completed }))}
+                    data={heatmapData.map((item) => ({
+                      date: item.date,
+                      count: item.completed,
+                      value: item.value,
+                      note: item.note
+                    }))}
+                    target={heatmapTarget}
+                    excusedRanges={heatmapExcusedRanges}
                     theme={theme}
                     selectedHabitId={selectedHabitId}
-                    habitOptions={[{ value: -1, label: "All" }, ...habits.map((habit) => ({
+                    habitOptions={[{ value: -1, label: "All" }, ...visibleHabits.map((habit) => ({
                       value: habit.id,
                       label: habit.name
                     }))]}
                     onHabitChange={setSelectedHabitId}
+                    selectedCategory={selectedCategory}
+                    categoryOptions={[
+                      { value: "", label: "All" },
+                      ...categories.map((category) => ({ value: category, label: category }))
+                    ]}
+                    onCategoryChange={(category) => {
+                      setSelectedCategory(category);
+                      setSelectedHabitId(-1);
+                    }}
                     onOpenManageHabits={() => setIsManageHabitsOpen(true)}
                     selectedYear={heatmapRange}
                     yearOptions={heatmapRangeOptions}
@@ -503,7 +932,20 @@ export function App() {
                   />
                 </>
               ) : (
-                <div className="empty-state">Add your first habit to start tracking.</div>
+                <div className="empty-state">
+                  Add your first habit to start tracking.
+                  <button
+                    type="button"
+                    className="ghost-btn"
+                    style={{ marginLeft: 10 }}
+                    onClick={() => {
+                      setIsManageHabitsOpen(true);
+                      void openArchivedHabits();
+                    }}
+                  >
+                    Archived habits
+                  </button>
+                </div>
               )}
 
               <div className="checklist">
@@ -539,6 +981,14 @@ export function App() {
                         Back to Today
                       </button>
                     )}
+                    <button
+                      type="button"
+                      className="ghost-btn"
+                      style={{ fontSize: '0.85rem', padding: '6px 10px' }}
+                      onClick={() => setIsBackfillOpen(true)}
+                    >
+                      Edit week
+                    </button>
                   </div>
                 </div>
                 {checklist.length === 0 ? (
@@ -548,27 +998,113 @@ export function App() {
                     {checklist.map((item) => (
                       <li key={item.habitId}>
                         <label>
-                          <input
-                            type="checkbox"
-                            checked={item.completed}
-                            onChange={(e) => void toggleHabit(item, e.target.checked)}
-                          />
+                          {item.polarity === "quit" ? (
+                            <input
+                              type="checkbox"
+                              checked={!item.completed}
+                              onChange={(e) => void toggleHabit(item, !e.target.checked)}
+                              aria-label={`Log a slip for ${item.name}`}
+                            />
+                          ) : (
+                            <input
+                              type="checkbox"
+                              checked={item.completed}
+                              onChange={(e) => void toggleHabit(item, e.target.checked)}
+                            />
+                          )}
+                          {item.color && <span className="habit-color-dot" style={{ background: item.color }} />}
                           <span>{item.name}</span>
+                          {item.polarity === "quit" && (
+                            <span className="schedule-tag">{item.completed ? "Clean" : "Slipped"}</span>
+                          )}
+                          {item.excused && <span className="schedule-tag">Excused</span>}
+                          {item.schedule.type !== "daily" && (
+                            <span className="schedule-tag">{describeSchedule(item.schedule)}</span>
+                          )}
+                          {item.dailyTarget !== null && (
+                            <span className="checklist-value">
+                              <input
+                                key={`${selectedDate}-${item.value ?? 0}`}
+                                type="number"
+                                min={0}
+                                step="any"
+                                defaultValue={item.value ?? 0}
+                                aria-label={`${item.name} amount`}
+                                onBlur={(e) => {
+                                  const next = Number(e.target.value);
+                                  if (Number.isFinite(next) && next !== (item.value ?? 0)) {
+                                    void toggleHabit(item, next >= (item.dailyTarget ?? 0), next);
+                                  }
+                                }}
+                              />
+                              <span className="muted">/ {item.dailyTarget}{item.unit ? ` ${item.unit}` : ""}</span>
+                            </span>
+                          )}
                         </label>
+                        <input
+                          key={`${selectedDate}-${item.note ?? ""}`}
+                          type="text"
+                          className="checklist-note"
+                          defaultValue={item.note ?? ""}
+                          maxLength={280}
+                          placeholder="Add a note"
+                          aria-label={`${item.name} note`}
+                          onBlur={(e) => {
+                            const next = e.target.value.trim();
+                            if (next !== (item.note ?? "")) void saveChecklistNote(item, next);
+                          }}
+                        />
                       </li>
                     ))}
                   </ul>
                 )}
+                {checklist.length > 0 && (
+                  <div className="journal-entry">
+                    <h4>Journal</h4>
+                    <textarea
+                      key={`${selectedDate}-${journalBody}`}
+                      defaultValue={journalBody}
+                      maxLength={5000}
+                      rows={3}
+                      placeholder="How did the day go?"
+                      onBlur={(e) => {
+                        const next = e.target.value.trim();
+                        if (next !== journalBody) void saveJournal(next);
+                      }}
+                    />
+                  </div>
+                )}
               </div>
             </>
           )}
 
           {activeTab === "analytics" && authUser && summary && (
-            <AnalyticsPanel summary={summary} year={Number(heatmapRange)} />
+            <>
+              <SummaryRangePicker
+                value={summaryRange}
+                year={Number(heatmapRange)}
+                todayISO={todayISO}
+                onChange={setSummaryRange}
+              />
+              {analyticsSummary && (
+                <AnalyticsPanel
+                  summary={analyticsSummary}
+                  rangeLabel={summaryRange.preset === "year" ? heatmapRange : undefined}
+                  todayISO={todayISO}
+                  streakHistory={streakHistory}
+                  unit={selectedHabit?.unit ?? null}
+                />
+              )}
+              {insights && <InsightsPanel insights={insights} />}
+            </>
           )}
           {activeTab === "analytics" && authUser && !summary && (
             <div className="empty-state">Add your first habit to view analytics.</div>
           )}
+
+          {activeTab === "review" && authUser && yearReview && (
+            <YearReview review={yearReview} yearOptions={heatmapRangeOptions} onYearChange={setReviewYear} />
+          )}
         </div>
       </section>
 
@@ -599,6 +1135,44 @@ export function App() {
                   <FiCalendar />
                 </span>
               </div>
+              <div className="schedule-fields">
+                <select
+                  value={newHabitPolarity}
+                  onChange={(e) => setNewHabitPolarity(e.target.value as HabitPolarity)}
+                  aria-label="Habit type"
+                >
+                  <option value="build">Build a habit</option>
+                  <option value="quit">Quit a habit (tick only when you slip)</option>
+                </select>
+              </div>
+              <CategoryFields
+                category={newHabitCategory.category}
+                color={newHabitCategory.color}
+                categories={categories}
+                onChange={setNewHabitCategory}
+              />
+              {newHabitPolarity === "build" && (
+                <>
+                  <ScheduleFields value={newHabitSchedule} onChange={setNewHabitSchedule} />
+                  <div className="habit-target-fields">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={newHabitTarget}
+                      onChange={(e) => setNewHabitTarget(e.target.value)}
+                      placeholder="Daily target (optional)"
+                    />
+                    <input
+                      type="text"
+                      value={newHabitUnit}
+                      onChange={(e) => setNewHabitUnit(e.target.value)}
+                      placeholder="Unit, e.g. pages"
+                      disabled={!newHabitTarget}
+                    />
+                  </div>
+                </>
+              )}
               <div className="modal-actions">
                 <button type="button" className="ghost-btn" onClick={() => setIsHabitModalOpen(false)}>
                   Cancel
@@ -611,30 +1185,311 @@ export function App() {
       )}
 
       {isManageHabitsOpen && (
-        <div className="modal-backdrop" onClick={() => setIsManageHabitsOpen(false)} role="presentation">
+        <div className="modal-backdrop" onClick={closeManageHabits} role="presentation">
           <div className="modal" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
             <h2>Edit Habits</h2>
-            {habits.length === 0 ? (
+            <div className="modal-tabs">
+              <button
+                type="button"
+                className={manageView === "active" ? "nav-link active" : "nav-link"}
+                onClick={() => setManageView("active")}
+              >
+                Active
+              </button>
+              <button
+                type="button"
+                className={manageView === "archived" ? "nav-link active" : "nav-link"}
+                onClick={() => void openArchivedHabits()}
+              >
+                Archived habits
+              </button>
+            </div>
+            {manageView === "archived" ? (
+              archivedHabits.length === 0 ? (
+                <p className="muted">No archived habits.</p>
+              ) : (
+                <>
+                  <label className="restore-gap-option">
+                    <input
+                      type="checkbox"
+                      checked={restoreWithGap}
+                      onChange={(e) => setRestoreWithGap(e.target.checked)}
+                    />
+                    <span>Leave the archived days out of stats when restoring</span>
+                  </label>
+                  <ul className="manage-habits-list">
+                    {archivedHabits.map((habit) => (
+                      <li key={habit.id}>
+                        <span>
+                          {habit.name}
+                          <span className="schedule-tag">
+                            {habit.createdAt} to {habit.deletedOn} · {habit.history.completed}/{habit.history.total} days
+                            ({habit.history.consistency}%)
+                          </span>
+                        </span>
+                        <span className="manage-habit-actions">
+                          <button
+                            type="button"
+                            className="edit-habit-btn"
+                            onClick={() => void handleRestoreHabit(habit.id)}
+                            aria-label={`Restore ${habit.name}`}
+                          >
+                            Restore
+                          </button>
+                          <button
+                            type="button"
+                            className="delete-habit-btn"
+                            onClick={() => void handlePurgeHabit(habit.id)}
+                            aria-label={`Permanently delete ${habit.name}`}
+                          >
+                            Delete forever
+                          </button>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )
+            ) : habits.length === 0 ? (
               <p className="muted">No active habits.</p>
             ) : (
               <ul className="manage-habits-list">
-                {habits.map((habit) => (
-                  <li key={habit.id}>
-                    <span>{habit.name}</span>
+                {habits.map((habit) =>
+                  editingHabit?.id === habit.id ? (
+                    <li key={habit.id} className="editing">
+                      <form onSubmit={handleUpdateHabit} className="add-habit-form">
+                        <input
+                          type="text"
+                          value={editingHabit.name}
+                          onChange={(e) => setEditingHabit({ ...editingHabit, name: e.target.value })}
+                          aria-label="Habit name"
+                          required
+                        />
+                        <input
+                          type="date"
+                          value={editingHabit.createdAt}
+                          max={todayISO}
+                          onChange={(e) => setEditingHabit({ ...editingHabit, createdAt: e.target.value })}
+                          aria-label="Start date"
+                          required
+                        />
+                        <CategoryFields
+                          category={editingHabit.category}
+                          color={editingHabit.color}
+                          categories={categories}
+                          onChange={(next) => setEditingHabit({ ...editingHabit, ...next })}
+                        />
+                        {habit.polarity === "build" && (
+                          <>
+                            <ScheduleFields
+                              value={editingHabit.schedule}
+                              onChange={(schedule) => setEditingHabit({ ...editingHabit, schedule })}
+                            />
+                            <div className="habit-target-fields">
+                              <input
+                                type="number"
+                                min={0}
+                                step="any"
+                                value={editingHabit.dailyTarget}
+                                onChange={(e) => setEditingHabit({ ...editingHabit, dailyTarget: e.target.value })}
+                                placeholder="Daily target (optional)"
+                              />
+                              <input
+                                type="text"
+                                value={editingHabit.unit}
+                                onChange={(e) => setEditingHabit({ ...editingHabit, unit: e.target.value })}
+                                placeholder="Unit, e.g. pages"
+                                disabled={!editingHabit.dailyTarget}
+                              />
+                            </div>
+                          </>
+                        )}
+                        <div className="modal-actions">
+                          <button type="button" className="ghost-btn" onClick={() => setEditingHabit(null)}>
+                            Cancel
+                          </button>
+                          <button type="submit">Save</button>
+                        </div>
+                      </form>
+                    </li>
+                  ) : (
+                    <li key={habit.id}>
+                      <span>
+                        {habit.color && <span className="habit-color-dot" style={{ background: habit.color }} />}
+                        {habit.name}
+                        <span className="schedule-tag">
+                          {habit.polarity === "quit" ? "Quit" : describeSchedule(habit.schedule)}
+                        </span>
+                        {habit.category && <span className="schedule-tag">{habit.category}</span>}
+                      </span>
+                      <span className="manage-habit-actions">
+                        <button
+                          type="button"
+                          className="edit-habit-btn"
+                          onClick={() => startEditingHabit(habit)}
+                          aria-label={`Edit ${habit.name}`}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          className="delete-habit-btn"
+                          onClick={() => void handleDeleteHabit(habit.id)}
+                          aria-label={`Archive ${habit.name}`}
+                        >
+                          Archive
+                        </button>
+                      </span>
+                    </li>
+                  )
+                )}
+              </ul>
+            )}
+            <div className="modal-actions">
+              <button type="button" className="ghost-btn" onClick={closeManageHabits}>
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isBackfillOpen && (
+        <div className="modal-backdrop" onClick={() => setIsBackfillOpen(false)} role="presentation">
+          <div className="modal modal-wide" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+            <h2>Backfill a Week</h2>
+            <p className="muted">Changes are saved together; nothing is saved if any of them is rejected.</p>
+            <BackfillEditor
+              todayISO={todayISO}
+              initialDate={selectedDate}
+              category={selectedCategory}
+              onClose={() => setIsBackfillOpen(false)}
+              onSaved={() => void handleBackfillSaved()}
+            />
+          </div>
+        </div>
+      )}
+
+      {isBackupOpen && (
+        <div className="modal-backdrop" onClick={() => setIsBackupOpen(false)} role="presentation">
+          <div className="modal modal-wide" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+            <h2>Backup &amp; Restore</h2>
+            <BackupPanel
+              todayISO={todayISO}
+              onClose={() => setIsBackupOpen(false)}
+              onImported={() => void handleImported()}
+            />
+          </div>
+        </div>
+      )}
+
+      {isExternalImportOpen && (
+        <div className="modal-backdrop" onClick={() => setIsExternalImportOpen(false)} role="presentation">
+          <div className="modal modal-wide" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+            <h2>Import from Another App</h2>
+            <ExternalImportPanel
+              onClose={() => setIsExternalImportOpen(false)}
+              onImported={() => void handleImported()}
+            />
+          </div>
+        </div>
+      )}
+
+      {isCalendarFeedOpen && (
+        <div className="modal-backdrop" onClick={() => setIsCalendarFeedOpen(false)} role="presentation">
+          <div className="modal" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+            <h2>Calendar Feed</h2>
+            <CalendarFeedPanel onClose={() => setIsCalendarFeedOpen(false)} />
+          </div>
+        </div>
+      )}
+
+      {isBadgeOpen && (
+        <div className="modal-backdrop" onClick={() => setIsBadgeOpen(false)} role="presentation">
+          <div className="modal modal-wide" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+            <h2>Heatmap Badge</h2>
+            <BadgePanel
+              habits={habits}
+              years={heatmapRangeOptions.map((option) => Number(option.value))}
+              theme={theme}
+              onClose={() => setIsBadgeOpen(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {isExcusedModalOpen && (
+        <div className="modal-backdrop" onClick={() => setIsExcusedModalOpen(false)} role="presentation">
+          <div className="modal" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+            <h2>Excused Days</h2>
+            <p className="muted">Excused days are left out of consistency and never break a streak.</p>
+            <form onSubmit={handleCreateExcused} className="add-habit-form">
+              <div className="habit-target-fields">
+                <input
+                  type="date"
+                  value={newExcused.start}
+                  onChange={(e) => setNewExcused({ ...newExcused, start: e.target.value })}
+                  aria-label="First excused day"
+                  required
+                />
+                <input
+                  type="date"
+                  value={newExcused.end}
+                  min={newExcused.start}
+                  onChange={(e) => setNewExcused({ ...newExcused, end: e.target.value })}
+                  aria-label="Last excused day"
+                  required
+                />
+              </div>
+              <div className="schedule-fields">
+                <select
+                  value={newExcused.habitId}
+                  onChange={(e) => setNewExcused({ ...newExcused, habitId: e.target.value })}
+                  aria-label="Excused habit"
+                >
+                  <option value="">All habits</option>
+                  {habits.map((habit) => (
+                    <option key={habit.id} value={habit.id}>{habit.name}</option>
+                  ))}
+                </select>
+              </div>
+              <input
+                type="text"
+                value={newExcused.reason}
+                onChange={(e) => setNewExcused({ ...newExcused, reason: e.target.value })}
+                placeholder="Reason (optional), e.g. Vacation"
+              />
+              <div className="modal-actions">
+                <button type="submit">Add Excused Days</button>
+              </div>
+            </form>
+            {excusedRanges.length > 0 && (
+              <ul className="manage-habits-list">
+                {excusedRanges.map((range) => (
+                  <li key={range.id}>
+                    <span>
+                      {range.start === range.end ? range.start : `${range.start} to ${range.end}`}
+                      <span className="schedule-tag">
+                        {range.habitId === null
+                          ? "All habits"
+                          : habits.find((habit) => habit.id === range.habitId)?.name ?? "Archived habit"}
+                        {range.reason ? ` · ${range.reason}` : ""}
+                      </span>
+                    </span>
                     <button
                       type="button"
                       className="delete-habit-btn"
-                      onClick={() => void handleDeleteHabit(habit.id)}
-                      aria-label={`Delete ${habit.name}`}
+                      onClick={() => void handleDeleteExcused(range.id)}
+                      aria-label={`Remove excused days starting ${range.start}`}
                     >
-                      Delete
+                      Remove
                     </button>
                   </li>
                 ))}
               </ul>
             )}
-            <div className="modal-actions">
-              <button type="button" className="ghost-btn" onClick={() => setIsManageHabitsOpen(false)}>
+            <div className="modal-actions" style={{ marginTop: 8 }}>
+              <button type="button" className="ghost-btn" onClick={() => setIsExcusedModalOpen(false)}>
                 Close
               </button>
             </div>
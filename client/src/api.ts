@@ -1,37 +1,214 @@
 const API_BASE = import.meta.env.VITE_API_BASE_URL || "http://localhost:4000/api";;
 let authToken: string | null = null;
 
+export type HabitSchedule =
+  | { type: "daily" }
+  | { type: "weekdays"; weekdays: number[] }
+  | { type: "weekly"; perWeek: number }
+  | { type: "interval"; everyDays: number };
+
+export type HabitPolarity = "build" | "quit";
+
 export interface Habit {
   id: number;
   name: string;
   createdAt: string;
+  schedule: HabitSchedule;
+  polarity: HabitPolarity;
+  unit: string | null;
+  dailyTarget: number | null;
+  category: string | null;
+  color: string | null;
+}
+
+export interface HabitInput {
+  name: string;
+  createdAt?: string;
+  schedule?: HabitSchedule;
+  polarity?: HabitPolarity;
+  unit?: string | null;
+  dailyTarget?: number | null;
+  category?: string | null;
+  color?: string | null;
 }
 
 export interface CheckinPoint {
   date: string;
   completed: number;
+  value?: number | null;
+  note?: string | null;
 }
 
 export interface DayChecklistItem {
   habitId: number;
   name: string;
   completed: boolean;
+  schedule: HabitSchedule;
+  polarity: HabitPolarity;
+  excused: boolean;
+  value: number | null;
+  unit: string | null;
+  dailyTarget: number | null;
+  note: string | null;
+  category: string | null;
+  color: string | null;
+}
+
+export interface JournalEntry {
+  date: string;
+  body: string;
+}
+
+export interface NoteSearchResult {
+  type: "checkin" | "journal";
+  date: string;
+  habitId: number | null;
+  habitName: string | null;
+  note: string;
 }
 
 export interface PeriodSummary {
   completed: number;
   total: number;
   consistency: number;
+  valueTotal?: number;
+  valueAverage?: number;
+}
+
+export interface ExcusedRange {
+  id: number;
+  habitId: number | null;
+  start: string;
+  end: string;
+  reason: string | null;
+}
+
+export interface ArchivedHabit extends Habit {
+  deletedOn: string;
+  history: PeriodSummary;
+}
+
+export interface StreakStatus {
+  streak: number;
+  date: string;
+  freezesRemaining: number;
+  frozenDays: string[];
+}
+
+export interface StreakRun {
+  start: string;
+  end: string;
+  length: number;
+  current: boolean;
+}
+
+export interface StreakHistory {
+  runs: StreakRun[];
+  currentStreak: number;
+  longestStreak: number;
+  longestSetOn: string | null;
+  currentRank: number | null;
+}
+
+export interface HabitPairInsight {
+  habitId: number;
+  habitName: string;
+  otherHabitId: number;
+  otherHabitName: string;
+  sharedDays: number;
+  bothDone: number;
+  correlation: number;
+}
+
+export interface ConditionalInsight {
+  habitId: number;
+  habitName: string;
+  otherHabitId: number;
+  otherHabitName: string;
+  days: number;
+  rate: number;
+  baseline: number;
+  text: string;
+}
+
+export interface HabitInsights {
+  range: { start: string; end: string };
+  habitsCompared: number;
+  together: HabitPairInsight[];
+  missPredictors: ConditionalInsight[];
+  conditionalRates: ConditionalInsight[];
+}
+
+export interface YearReviewHabit {
+  habitId: number;
+  name: string;
+  color: string | null;
+  summary: PeriodSummary;
+  longestStreak: number;
+  doneDates: string[];
+  missedDates: string[];
+}
+
+export interface YearReview {
+  year: number;
+  start: string;
+  end: string;
+  summary: PeriodSummary;
+  totalCompletions: number;
+  bestMonth: (PeriodSummary & { label: string }) | null;
+  bestWeekday: string;
+  longestStreak: number;
+  perfectDays: number;
+  mostImproved: { habitId: number; name: string; from: number; to: number } | null;
+  habits: YearReviewHabit[];
+}
+
+export type SummaryGranularity = "day" | "week" | "month" | "quarter";
+
+export interface SummaryOptions {
+  year?: number;
+  start?: string;
+  end?: string;
+  granularity?: SummaryGranularity;
+  /** Target consistency (%) for the monthly goal; the server defaults to 80. */
+  goal?: number;
+}
+
+export interface RollingPoint {
+  rolling7: number | null;
+  rolling30: number | null;
+}
+
+export type TrendDirection = "up" | "down" | "flat";
+
+export interface SummaryTrend {
+  direction: TrendDirection;
+  rolling7: number;
+  rolling30: number;
+  previous30: number;
+  projectedYearEnd: number;
+  monthGoal: {
+    goal: number;
+    completed: number;
+    total: number;
+    remainingDue: number;
+    needed: number;
+    reachable: boolean;
+  };
 }
 
 export interface HabitSummary {
+  range: { start: string; end: string; granularity: SummaryGranularity };
   year: PeriodSummary;
+  periods: Array<PeriodSummary & RollingPoint & { label: string; start: string; end: string }>;
   currentWeek: PeriodSummary;
   currentMonth: PeriodSummary;
-  weekly: Array<PeriodSummary & { label: string }>;
+  weekly: Array<PeriodSummary & RollingPoint & { label: string }>;
   monthly: Array<PeriodSummary & { label: string }>;
   currentStreak: number;
   longestStreak: number;
+  freezesRemaining: number;
+  frozenDays: string[];
   lifetimeCompletions: number;
   bestDay: string;
   missedDayInsight: string;
@@ -39,10 +216,21 @@ export interface HabitSummary {
     habitId: number;
     name: string;
     consistency: number;
+    category: string | null;
+    color: string | null;
+  }>;
+  trend: SummaryTrend;
+  habitTrends: Array<{
+    habitId: number;
+    name: string;
+    color: string | null;
+    direction: TrendDirection;
+    rolling30: number;
+    previous30: number;
   }>;
 }
 
-async function request<T>(path: string, init?: RequestInit): Promise<T> {
+async function fetchApi(path: string, init?: RequestInit) {
   const headers: HeadersInit = {
     "Content-Type": "application/json",
     ...(authToken ? { Authorization: `Bearer ${authToken}` } : {})
@@ -61,7 +249,11 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
       throw new Error(text || "API request failed");
     }
   }
+  return res;
+}
 
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetchApi(path, init);
   return res.json() as Promise<T>;
 }
 
@@ -76,19 +268,20 @@ export function setAuthToken(token: string | null) {
 export interface AuthUser {
   id: number;
   username: string;
+  timeZone: string;
 }
 
-export function register(username: string, password: string) {
+export function register(username: string, password: string, timeZone: string) {
   return request<{ token: string; user: AuthUser }>("/auth/register", {
     method: "POST",
-    body: JSON.stringify({ username, password })
+    body: JSON.stringify({ username, password, timeZone })
   });
 }
 
-export function login(username: string, password: string) {
+export function login(username: string, password: string, timeZone: string) {
   return request<{ token: string; user: AuthUser }>("/auth/login", {
     method: "POST",
-    body: JSON.stringify({ username, password })
+    body: JSON.stringify({ username, password, timeZone })
   });
 }
 
@@ -96,10 +289,24 @@ export function me() {
   return request<{ user: AuthUser }>("/auth/me");
 }
 
-export function createHabit(name: string, createdAt?: string) {
+export function updateTimeZone(timeZone: string) {
+  return request<{ user: AuthUser }>("/auth/me", {
+    method: "PATCH",
+    body: JSON.stringify({ timeZone })
+  });
+}
+
+export function createHabit(input: HabitInput) {
   return request<Habit>("/habits", {
     method: "POST",
-    body: JSON.stringify({ name, createdAt })
+    body: JSON.stringify(input)
+  });
+}
+
+export function updateHabit(habitId: number, changes: Partial<HabitInput>) {
+  return request<Habit>(`/habits/${habitId}`, {
+    method: "PATCH",
+    body: JSON.stringify(changes)
   });
 }
 
@@ -109,6 +316,23 @@ export function deleteHabit(habitId: number) {
   });
 }
 
+export function listArchivedHabits() {
+  return request<ArchivedHabit[]>("/habits/archived");
+}
+
+export function restoreHabit(habitId: number, keepGap: boolean) {
+  return request<Habit>(`/habits/${habitId}/restore`, {
+    method: "POST",
+    body: JSON.stringify({ keepGap })
+  });
+}
+
+export function purgeHabit(habitId: number) {
+  return request<{ success: true }>(`/habits/${habitId}/purge`, {
+    method: "DELETE"
+  });
+}
+
 export function getHabitHeatmap(habitId: number, options: { year?: number; start?: string; end?: string }) {
   const params = new URLSearchParams();
   if (options.start && options.end) {
@@ -121,8 +345,9 @@ export function getHabitHeatmap(habitId: number, options: { year?: number; start
   return request<CheckinPoint[]>(`/habits/${habitId}/checkins${query ? `?${query}` : ""}`);
 }
 
-export function getAllHeatmap(options: { year?: number; start?: string; end?: string }) {
+export function getAllHeatmap(options: { year?: number; start?: string; end?: string; category?: string }) {
   const params = new URLSearchParams();
+  if (options.category) params.set("category", options.category);
   if (options.start && options.end) {
     params.set("start", options.start);
     params.set("end", options.end);
@@ -133,12 +358,54 @@ export function getAllHeatmap(options: { year?: number; start?: string; end?: st
   return request<CheckinPoint[]>(`/checkins${query ? `?${query}` : ""}`);
 }
 
-export function getHabitSummary(habitId: number, year: number) {
-  return request<HabitSummary>(`/habits/${habitId}/summary?year=${year}`);
+function summaryParams(options: SummaryOptions) {
+  const params = new URLSearchParams();
+  if (options.start && options.end) {
+    params.set("start", options.start);
+    params.set("end", options.end);
+  } else if (options.year) {
+    params.set("year", String(options.year));
+  }
+  if (options.granularity) params.set("granularity", options.granularity);
+  if (options.goal) params.set("goal", String(options.goal));
+  return params;
+}
+
+export function getHabitSummary(habitId: number, options: SummaryOptions) {
+  const query = summaryParams(options).toString();
+  return request<HabitSummary>(`/habits/${habitId}/summary${query ? `?${query}` : ""}`);
+}
+
+export function getAllSummary(options: SummaryOptions & { category?: string }) {
+  const params = summaryParams(options);
+  if (options.category) params.set("category", options.category);
+  const query = params.toString();
+  return request<HabitSummary>(`/summary${query ? `?${query}` : ""}`);
 }
 
-export function getAllSummary(year: number) {
-  return request<HabitSummary>(`/summary?year=${year}`);
+export function getHabitStreaks(habitId: number) {
+  return request<StreakHistory>(`/habits/${habitId}/streaks`);
+}
+
+export function getAllStreaks(category?: string) {
+  const query = category ? `?${new URLSearchParams({ category }).toString()}` : "";
+  return request<StreakHistory>(`/streaks${query}`);
+}
+
+export function getInsights(options: { habitId?: number; category?: string; start?: string; end?: string }) {
+  const params = new URLSearchParams();
+  if (options.habitId) params.set("habitId", String(options.habitId));
+  if (options.category) params.set("category", options.category);
+  if (options.start && options.end) {
+    params.set("start", options.start);
+    params.set("end", options.end);
+  }
+  const query = params.toString();
+  return request<HabitInsights>(`/insights${query ? `?${query}` : ""}`);
+}
+
+export function getYearReview(year: number) {
+  return request<YearReview>(`/review?year=${year}`);
 }
 
 export function getHabitYears(habitId: number) {
@@ -150,16 +417,215 @@ export function getAllYears() {
 }
 
 export function getStreak() {
-  return request<{ streak: number; date: string }>("/streak");
+  return request<StreakStatus>("/streak");
+}
+
+export function getDayChecklist(date: string, category?: string) {
+  const params = new URLSearchParams({ date });
+  if (category) params.set("category", category);
+  return request<DayChecklistItem[]>(`/checklist?${params.toString()}`);
+}
+
+export function updateChecklistItem(habitId: number, date: string, completed: boolean, value?: number) {
+  return request<{ success: true; completed: boolean; value: number | null }>(`/checklist/${habitId}`, {
+    method: "PUT",
+    body: JSON.stringify({ date, completed, value })
+  });
+}
+
+export interface BatchCheckinEntry {
+  habitId: number;
+  date: string;
+  completed: boolean;
+  value?: number;
+}
+
+export function saveCheckinBatch(entries: BatchCheckinEntry[]) {
+  return request<{
+    success: true;
+    applied: number;
+    results: Array<{ index: number; habitId: number; date: string; completed: boolean; value: number | null }>;
+  }>("/checkins/batch", {
+    method: "POST",
+    body: JSON.stringify({ entries })
+  });
 }
 
-export function getDayChecklist(date: string) {
-  return request<DayChecklistItem[]>(`/checklist?date=${date}`);
+export function updateChecklistNote(habitId: number, date: string, note: string) {
+  return request<{ success: true; note: string | null }>(`/checklist/${habitId}/note`, {
+    method: "PUT",
+    body: JSON.stringify({ date, note })
+  });
+}
+
+export function getJournalEntry(date: string) {
+  return request<JournalEntry>(`/journal?date=${date}`);
 }
 
-export function updateChecklistItem(habitId: number, date: string, completed: boolean) {
-  return request<{ success: true }>(`/checklist/${habitId}`, {
+export function saveJournalEntry(date: string, body: string) {
+  return request<JournalEntry>("/journal", {
     method: "PUT",
-    body: JSON.stringify({ date, completed })
+    body: JSON.stringify({ date, body })
+  });
+}
+
+export function searchNotes(query: string, start: string, end: string) {
+  const params = new URLSearchParams({ q: query, start, end });
+  return request<NoteSearchResult[]>(`/notes/search?${params.toString()}`);
+}
+
+export function listExcusedRanges() {
+  return request<ExcusedRange[]>("/excused");
+}
+
+export function createExcusedRange(range: Omit<ExcusedRange, "id">) {
+  return request<ExcusedRange>("/excused", {
+    method: "POST",
+    body: JSON.stringify(range)
+  });
+}
+
+export function deleteExcusedRange(excusedId: number) {
+  return request<{ success: true }>(`/excused/${excusedId}`, {
+    method: "DELETE"
+  });
+}
+
+export type BackupFormat = "json" | "csv";
+export type ImportMode = "merge" | "replace";
+
+export interface ImportCheckinState {
+  completed: boolean;
+  value: number | null;
+  note: string | null;
+}
+
+export interface ImportPreview {
+  mode: ImportMode;
+  habits: { created: string[]; matched: string[]; removed: number; backdated: string[] };
+  settingConflicts: Array<{ habit: string; fields: string[] }>;
+  checkins: { added: number; overwritten: number; unchanged: number; removed: number; skipped: number };
+  conflicts: Array<{ habit: string; date: string; existing: ImportCheckinState; incoming: ImportCheckinState }>;
+  excused: { added: number; removed: number };
+  journal: { added: number; overwritten: number; removed: number };
+}
+
+/** The whole account (archived habits, every checkin) as a downloadable file. */
+export async function downloadAccountExport(format: BackupFormat) {
+  const res = await fetchApi(`/export?format=${format}`);
+  return res.blob();
+}
+
+/** `data` is the exported JSON document, or the CSV text for the csv format. */
+export function importAccount(input: { mode: ImportMode; dryRun: boolean; format: BackupFormat; data: unknown }) {
+  return request<{ dryRun?: true; success?: true; preview: ImportPreview }>("/import", {
+    method: "POST",
+    body: JSON.stringify(input)
+  });
+}
+
+export type ExternalFormat = "loop" | "generic" | "markdown";
+export type ImportDateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY";
+
+export interface ColumnMapping {
+  date: string;
+  habit: string;
+  done: string | null;
+  value: string | null;
+  note: string | null;
+  dateFormat: ImportDateFormat;
+}
+
+export interface ExternalRow {
+  habit: string;
+  date: string;
+  completed: boolean;
+  value: number | null;
+  note: string | null;
+}
+
+export interface ExternalInspection {
+  columns: string[];
+  mapping: ColumnMapping | null;
+  habits: string[];
+  rows: number;
+  skipped: number;
+  warnings: string[];
+  sample: ExternalRow[];
+}
+
+export function inspectExternalImport(format: ExternalFormat, data: string) {
+  return request<ExternalInspection>("/import/external/inspect", {
+    method: "POST",
+    body: JSON.stringify({ format, data })
+  });
+}
+
+/** Merges another app's history; `mapping` is needed for generic CSVs only. */
+export function importExternal(input: {
+  format: ExternalFormat;
+  data: string;
+  mapping?: ColumnMapping | null;
+  dryRun: boolean;
+}) {
+  return request<{
+    dryRun?: true;
+    success?: true;
+    rows: number;
+    skipped: number;
+    warnings: string[];
+    preview: ImportPreview;
+  }>("/import/external", {
+    method: "POST",
+    body: JSON.stringify(input)
   });
 }
+
+export interface ShareToken {
+  token: string | null;
+  createdAt: string | null;
+}
+
+export function getCalendarFeedToken() {
+  return request<ShareToken>("/calendar/token");
+}
+
+/** Creates the feed URL, or replaces it so the old one stops working. */
+export function resetCalendarFeedToken() {
+  return request<ShareToken>("/calendar/token", { method: "POST" });
+}
+
+export function revokeCalendarFeedToken() {
+  return request<{ success: true }>("/calendar/token", { method: "DELETE" });
+}
+
+export function calendarFeedUrl(token: string) {
+  return new URL(`${API_BASE}/calendar/${token}.ics`, window.location.href).toString();
+}
+
+export function getBadgeToken() {
+  return request<ShareToken>("/badge/token");
+}
+
+/** Creates the badge link, or replaces it so badges embedded with the old one stop loading. */
+export function resetBadgeToken() {
+  return request<ShareToken>("/badge/token", { method: "POST" });
+}
+
+export function revokeBadgeToken() {
+  return request<{ success: true }>("/badge/token", { method: "DELETE" });
+}
+
+export interface BadgeOptions {
+  habitId: number | null;
+  year: number | null;
+  theme: "light" | "dark";
+}
+
+export function badgeUrl(token: string, options: BadgeOptions) {
+  const url = new URL(`${API_BASE}/badge/${token}.svg`, window.location.href);
+  if (options.habitId !== null) url.searchParams.set("habit", String(options.habitId));
+  if (options.year !== null) url.searchParams.set("year", String(options.year));
+  url.searchParams.set("theme", options.theme);
+  return url.toString();
+}
@@ -1,30 +1,68 @@
 import { useEffect, useRef } from "react";
 import * as echarts from "echarts";
-import type { HabitSummary } from "../api";
+import type { HabitSummary, StreakHistory, SummaryGranularity, TrendDirection } from "../api";
 
 interface AnalyticsPanelProps {
   summary: HabitSummary;
-  year: number;
+  /** Shown in place of the summary's start and end dates, e.g. the selected year. */
+  rangeLabel?: string;
+  todayISO: string;
+  streakHistory?: StreakHistory | null;
+  unit?: string | null;
 }
 
-export function AnalyticsPanel({ summary, year }: AnalyticsPanelProps) {
+const granularityTitles: Record<SummaryGranularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+  quarter: "Quarterly"
+};
+
+function periodAxisLabel(summary: HabitSummary, period: HabitSummary["periods"][number]) {
+  const { granularity, start, end } = summary.range;
+  if (granularity === "day" || granularity === "week") return period.start.slice(5);
+  if (granularity === "month" && start.slice(0, 4) === end.slice(0, 4)) return period.label.split(" ")[0];
+  return period.label;
+}
+
+const trendArrows: Record<TrendDirection, string> = { up: "↑ Improving", down: "↓ Slipping", flat: "→ Steady" };
+
+function describeMonthGoal({ goal, needed, remainingDue, reachable }: HabitSummary["trend"]["monthGoal"]) {
+  if (needed === 0) return `On track for ${goal}% this month.`;
+  if (!reachable) return `${goal}% is out of reach this month (${remainingDue} due days left).`;
+  return `You need ${needed} more completion${needed === 1 ? "" : "s"} this month to hit ${goal}%.`;
+}
+
+function describeStreakRecord(history: StreakHistory) {
+  if (history.runs.length === 0) return "No streaks yet.";
+  const best = `Personal best: ${history.longestStreak} day${history.longestStreak === 1 ? "" : "s"}, set on ${history.longestSetOn}.`;
+  if (history.currentRank === null) return `${best} No streak running right now.`;
+  return `${best} Your current ${history.currentStreak}-day streak ranks #${history.currentRank} of ${history.runs.length}.`;
+}
+
+export function AnalyticsPanel({ summary, rangeLabel, todayISO, streakHistory, unit }: AnalyticsPanelProps) {
   const weeklyBarRef = useRef<HTMLDivElement | null>(null);
-  const monthlyLineRef = useRef<HTMLDivElement | null>(null);
+  const periodLineRef = useRef<HTMLDivElement | null>(null);
   const comparisonBarRef = useRef<HTMLDivElement | null>(null);
   const pieRef = useRef<HTMLDivElement | null>(null);
+  const streakTimelineRef = useRef<HTMLDivElement | null>(null);
+
+  // The year-end projection only means something while the range covers the current year.
+  const showsProjection = summary.range.start <= todayISO && todayISO <= summary.range.end;
 
   useEffect(() => {
-    if (!weeklyBarRef.current || !monthlyLineRef.current) return;
+    if (!weeklyBarRef.current || !periodLineRef.current) return;
 
     const weeklyBar = echarts.init(weeklyBarRef.current);
-    const monthlyLine = echarts.init(monthlyLineRef.current);
+    const periodLine = echarts.init(periodLineRef.current);
     const comparisonBar = comparisonBarRef.current ? echarts.init(comparisonBarRef.current) : null;
     const pie = pieRef.current ? echarts.init(pieRef.current) : null;
 
     weeklyBar.setOption({
       backgroundColor: "transparent",
-      tooltip: { trigger: "axis", valueFormatter: (v: number) => `${v}% tasks completed` },
-      grid: { left: 30, right: 12, top: 20, bottom: 24 },
+      tooltip: { trigger: "axis", valueFormatter: (v: number) => `${v}%` },
+      legend: { top: 0, right: 0, textStyle: { color: "#cbd5e1" } },
+      grid: { left: 30, right: 12, top: 28, bottom: 24 },
       xAxis: {
         type: "category",
         data: summary.weekly.map((_w, i) => `W${i + 1}`),
@@ -39,20 +77,30 @@ export function AnalyticsPanel({ summary, year }: AnalyticsPanelProps) {
       },
       series: [
         {
+          name: "Week",
           type: "bar",
           data: summary.weekly.map((w) => w.consistency),
           itemStyle: { color: "#22c55e", borderRadius: [4, 4, 0, 0] }
+        },
+        {
+          name: "30-day avg",
+          type: "line",
+          smooth: true,
+          symbol: "none",
+          data: summary.weekly.map((w) => w.rolling30),
+          lineStyle: { color: "#f59e0b", width: 2 }
         }
       ]
     });
 
-    monthlyLine.setOption({
+    periodLine.setOption({
       backgroundColor: "transparent",
-      tooltip: { trigger: "axis", valueFormatter: (v: number) => `${v}% tasks completed` },
-      grid: { left: 30, right: 12, top: 20, bottom: 24 },
+      tooltip: { trigger: "axis", valueFormatter: (v: number) => `${v}%` },
+      legend: { top: 0, right: 0, textStyle: { color: "#cbd5e1" } },
+      grid: { left: 30, right: 12, top: 28, bottom: 24 },
       xAxis: {
         type: "category",
-        data: summary.monthly.map((m) => m.label.split(" ")[0]),
+        data: summary.periods.map((period) => periodAxisLabel(summary, period)),
         axisLabel: { color: "#94a3b8" },
         axisLine: { lineStyle: { color: "#334155" } }
       },
@@ -67,11 +115,44 @@ export function AnalyticsPanel({ summary, year }: AnalyticsPanelProps) {
           type: "line",
           smooth: true,
           symbol: "circle",
-          symbolSize: 7,
-          data: summary.monthly.map((m) => m.consistency),
+          symbolSize: summary.periods.length > 60 ? 0 : 7,
+          name: "Completed",
+          data: summary.periods.map((period) => period.consistency),
           lineStyle: { color: "#3b82f6", width: 3 },
           itemStyle: { color: "#3b82f6" },
-          areaStyle: { color: "rgba(59,130,246,0.2)" }
+          areaStyle: { color: "rgba(59,130,246,0.2)" },
+          markLine: {
+            symbol: "none",
+            label: { color: "#cbd5e1", formatter: "{b}: {c}%" },
+            data: [
+              { name: "Goal", yAxis: summary.trend.monthGoal.goal, lineStyle: { color: "#22c55e", type: "dashed" } },
+              ...(showsProjection
+                ? [
+                    {
+                      name: "Projected",
+                      yAxis: summary.trend.projectedYearEnd,
+                      lineStyle: { color: "#a78bfa", type: "dashed" }
+                    }
+                  ]
+                : [])
+            ]
+          }
+        },
+        {
+          name: "7-day avg",
+          type: "line",
+          smooth: true,
+          symbol: "none",
+          data: summary.periods.map((period) => period.rolling7),
+          lineStyle: { color: "#f97316", width: 1.5, type: "dotted" }
+        },
+        {
+          name: "30-day avg",
+          type: "line",
+          smooth: true,
+          symbol: "none",
+          data: summary.periods.map((period) => period.rolling30),
+          lineStyle: { color: "#f59e0b", width: 2 }
         }
       ]
     });
@@ -99,8 +180,11 @@ export function AnalyticsPanel({ summary, year }: AnalyticsPanelProps) {
         series: [
           {
             type: "bar",
-            data: comparison.map((item) => item.consistency),
-            itemStyle: { color: "#a78bfa", borderRadius: [0, 4, 4, 0] }
+            data: comparison.map((item) => ({
+              value: item.consistency,
+              itemStyle: { color: item.color ?? "#a78bfa" }
+            })),
+            itemStyle: { borderRadius: [0, 4, 4, 0] }
           }
         ]
       });
@@ -131,7 +215,7 @@ export function AnalyticsPanel({ summary, year }: AnalyticsPanelProps) {
 
     const onResize = () => {
       weeklyBar.resize();
-      monthlyLine.resize();
+      periodLine.resize();
       comparisonBar?.resize();
       pie?.resize();
     };
@@ -139,24 +223,81 @@ export function AnalyticsPanel({ summary, year }: AnalyticsPanelProps) {
     return () => {
       window.removeEventListener("resize", onResize);
       weeklyBar.dispose();
-      monthlyLine.dispose();
+      periodLine.dispose();
       comparisonBar?.dispose();
       pie?.dispose();
     };
   }, [summary]);
 
+  useEffect(() => {
+    if (!streakTimelineRef.current || !streakHistory) return;
+    const timeline = echarts.init(streakTimelineRef.current);
+    const runs = streakHistory.runs;
+
+    timeline.setOption({
+      backgroundColor: "transparent",
+      tooltip: {
+        trigger: "axis",
+        formatter: (params: Array<{ dataIndex: number }>) => {
+          const run = runs[params[0].dataIndex];
+          return `${run.start} to ${run.end}<br/>${run.length} day${run.length === 1 ? "" : "s"}${run.current ? " (current)" : ""}`;
+        }
+      },
+      grid: { left: 36, right: 12, top: 20, bottom: 24 },
+      xAxis: {
+        type: "category",
+        data: runs.map((run) => run.start),
+        axisLabel: { color: "#94a3b8" },
+        axisLine: { lineStyle: { color: "#334155" } }
+      },
+      yAxis: {
+        type: "value",
+        minInterval: 1,
+        axisLabel: { color: "#94a3b8" },
+        splitLine: { lineStyle: { color: "#1e293b" } }
+      },
+      series: [
+        {
+          type: "bar",
+          data: runs.map((run) => ({
+            value: run.length,
+            itemStyle: {
+              color: run.current ? "#f97316" : run.length === streakHistory.longestStreak ? "#eab308" : "#22c55e"
+            }
+          })),
+          itemStyle: { borderRadius: [4, 4, 0, 0] }
+        }
+      ]
+    });
+
+    const onResize = () => timeline.resize();
+    window.addEventListener("resize", onResize);
+    return () => {
+      window.removeEventListener("resize", onResize);
+      timeline.dispose();
+    };
+  }, [streakHistory]);
+
   const canCompareHabits = summary.habitComparison.length > 1;
+  const unitSuffix = unit ? ` ${unit}` : "";
+  const periodLabel = rangeLabel ?? `${summary.range.start} – ${summary.range.end}`;
 
   return (
     <div className="analytics-wrap">
       <div className="analytics-top-row">
         <div className="analytics-metric-card">
-          <p>Consistency %</p>
+          <p>Consistency % ({periodLabel})</p>
           <h3>{summary.year.consistency}%</h3>
         </div>
         <div className="analytics-metric-card">
           <p>Current Streak 🔥</p>
           <h3>{summary.currentStreak}</h3>
+          {(summary.freezesRemaining > 0 || summary.frozenDays.length > 0) && (
+            <span className="streak-freeze-note">
+              {summary.freezesRemaining} freeze{summary.freezesRemaining === 1 ? "" : "s"} left
+              {summary.frozenDays.length > 0 ? ` · ${summary.frozenDays.length} day${summary.frozenDays.length === 1 ? "" : "s"} saved` : ""}
+            </span>
+          )}
         </div>
         <div className="analytics-metric-card">
           <p>Longest Streak</p>
@@ -174,9 +315,40 @@ export function AnalyticsPanel({ summary, year }: AnalyticsPanelProps) {
           <div className="analytics-chart" ref={weeklyBarRef} />
         </div>
         <div className="analytics-card">
-          <h3>Monthly Trend Line: % Tasks Completed</h3>
-          <div className="analytics-chart" ref={monthlyLineRef} />
+          <h3>{granularityTitles[summary.range.granularity]} Trend Line: % Tasks Completed</h3>
+          <div className="analytics-chart" ref={periodLineRef} />
+        </div>
+      </div>
+
+      <div className="analytics-bottom-row">
+        <div className="analytics-card">
+          <h3>Trend</h3>
+          <p className="analytics-text">
+            {trendArrows[summary.trend.direction]}: {summary.trend.rolling30}% over the last 30 days (
+            {summary.trend.previous30}% before), {summary.trend.rolling7}% over the last 7.
+          </p>
+        </div>
+        <div className="analytics-card">
+          <h3>Forecast</h3>
+          <p className="analytics-text">
+            At this pace the year ends at {summary.trend.projectedYearEnd}%. {describeMonthGoal(summary.trend.monthGoal)}
+          </p>
         </div>
+        {summary.habitTrends.length > 1 && (
+          <div className="analytics-card">
+            <h3>Habit Trends</h3>
+            <ul className="insight-list">
+              {summary.habitTrends.map((item) => (
+                <li key={item.habitId}>
+                  <strong>{item.name}</strong>
+                  <span className="muted">
+                    {trendArrows[item.direction]} · {item.rolling30}% (was {item.previous30}%)
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       <div className="analytics-bottom-row">
@@ -194,6 +366,33 @@ export function AnalyticsPanel({ summary, year }: AnalyticsPanelProps) {
         </div>
       </div>
 
+      {streakHistory && (
+        <div className="analytics-card">
+          <h3>Streak History</h3>
+          <p className="analytics-text">{describeStreakRecord(streakHistory)}</p>
+          {streakHistory.runs.length > 0 && <div className="analytics-chart" ref={streakTimelineRef} />}
+        </div>
+      )}
+
+      {summary.year.valueTotal !== undefined && (
+        <div className="analytics-bottom-row">
+          <div className="analytics-card">
+            <h3>Logged in {periodLabel}</h3>
+            <p className="analytics-text">{summary.year.valueTotal}{unitSuffix}</p>
+          </div>
+          <div className="analytics-card">
+            <h3>Daily Average ({periodLabel})</h3>
+            <p className="analytics-text">{summary.year.valueAverage}{unitSuffix}</p>
+          </div>
+          <div className="analytics-card">
+            <h3>This Month</h3>
+            <p className="analytics-text">
+              {summary.currentMonth.valueTotal}{unitSuffix} (avg {summary.currentMonth.valueAverage}{unitSuffix})
+            </p>
+          </div>
+        </div>
+      )}
+
       {canCompareHabits && (
         <div className="analytics-middle-row">
           <div className="analytics-card">
@@ -201,7 +400,7 @@ export function AnalyticsPanel({ summary, year }: AnalyticsPanelProps) {
             <div className="analytics-chart" ref={comparisonBarRef} />
           </div>
           <div className="analytics-card">
-            <h3>{year} Completed vs Missed</h3>
+            <h3>{periodLabel} Completed vs Missed</h3>
             <div className="analytics-chart" ref={pieRef} />
           </div>
         </div>
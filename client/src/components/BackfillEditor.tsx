@@ -0,0 +1,203 @@
+import { useEffect, useMemo, useState } from "react";
+import { type BatchCheckinEntry, type DayChecklistItem, getDayChecklist, saveCheckinBatch } from "../api";
+import { addDaysISO } from "../dates";
+
+interface BackfillEditorProps {
+  todayISO: string;
+  initialDate: string;
+  category?: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+type Cell = { completed: boolean; value: number | null };
+
+const weekdayLabels = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function mondayOf(iso: string) {
+  const weekday = new Date(`${iso}T00:00:00Z`).getUTCDay();
+  return addDaysISO(iso, -((weekday + 6) % 7));
+}
+
+function cellKey(habitId: number, date: string) {
+  return `${habitId}:${date}`;
+}
+
+/** A Monday-to-Sunday grid of the due checklist items, saved in one batch request. */
+export function BackfillEditor({ todayISO, initialDate, category, onClose, onSaved }: BackfillEditorProps) {
+  const [weekStart, setWeekStart] = useState(() => mondayOf(initialDate));
+  const [days, setDays] = useState<Record<string, DayChecklistItem[]>>({});
+  const [edits, setEdits] = useState<Record<string, Cell>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dates = useMemo(() => weekdayLabels.map((_label, index) => addDaysISO(weekStart, index)), [weekStart]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setEdits({});
+    const pastDates = dates.filter((date) => date <= todayISO);
+    Promise.all(pastDates.map((date) => getDayChecklist(date, category)))
+      .then((lists) => {
+        if (cancelled) return;
+        setDays(Object.fromEntries(pastDates.map((date, index) => [date, lists[index]])));
+        setError(null);
+      })
+      .catch((e) => !cancelled && setError((e as Error).message))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [dates, todayISO, category]);
+
+  const rows = useMemo(() => {
+    const byHabit = new Map<number, DayChecklistItem>();
+    for (const date of dates) {
+      for (const item of days[date] ?? []) {
+        if (!byHabit.has(item.habitId)) byHabit.set(item.habitId, item);
+      }
+    }
+    return [...byHabit.values()].sort((a, b) => a.habitId - b.habitId);
+  }, [dates, days]);
+
+  function itemOn(habitId: number, date: string) {
+    return days[date]?.find((item) => item.habitId === habitId) ?? null;
+  }
+
+  function cellFor(item: DayChecklistItem, date: string): Cell {
+    return edits[cellKey(item.habitId, date)] ?? { completed: item.completed, value: item.value };
+  }
+
+  function editCell(habitId: number, date: string, cell: Cell) {
+    setEdits((prev) => ({ ...prev, [cellKey(habitId, date)]: cell }));
+  }
+
+  async function save() {
+    const entries: BatchCheckinEntry[] = Object.entries(edits).map(([key, cell]) => {
+      const [habitId, date] = key.split(":");
+      return { habitId: Number(habitId), date, completed: cell.completed, value: cell.value ?? undefined };
+    });
+    if (entries.length === 0) {
+      onClose();
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveCheckinBatch(entries);
+      onSaved();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const changedCount = Object.keys(edits).length;
+
+  return (
+    <div className="backfill-editor">
+      <div className="backfill-nav">
+        <button type="button" className="ghost-btn" onClick={() => setWeekStart(addDaysISO(weekStart, -7))}>
+          ‹ Previous week
+        </button>
+        <span>
+          {dates[0]} to {dates[6]}
+        </span>
+        <button
+          type="button"
+          className="ghost-btn"
+          disabled={addDaysISO(weekStart, 7) > todayISO}
+          onClick={() => setWeekStart(addDaysISO(weekStart, 7))}
+        >
+          Next week ›
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="muted">Loading...</p>
+      ) : rows.length === 0 ? (
+        <p className="muted">No habits were due this week.</p>
+      ) : (
+        <table className="backfill-grid">
+          <thead>
+            <tr>
+              <th />
+              {dates.map((date, index) => (
+                <th key={date}>
+                  {weekdayLabels[index]}
+                  <span className="muted">{date.slice(5)}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.habitId}>
+                <th scope="row">
+                  {row.color && <span className="habit-color-dot" style={{ background: row.color }} />}
+                  {row.name}
+                  {row.polarity === "quit" && <span className="muted"> (tick a slip)</span>}
+                </th>
+                {dates.map((date) => {
+                  const item = itemOn(row.habitId, date);
+                  if (!item) {
+                    return (
+                      <td key={date} className="backfill-off">
+                        –
+                      </td>
+                    );
+                  }
+                  const cell = cellFor(item, date);
+                  const edited = cellKey(row.habitId, date) in edits;
+                  return (
+                    <td key={date} className={edited ? "backfill-edited" : undefined}>
+                      {item.dailyTarget !== null ? (
+                        <input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={cell.value ?? 0}
+                          aria-label={`${row.name} amount on ${date}`}
+                          onChange={(e) => {
+                            const value = Number(e.target.value);
+                            if (!Number.isFinite(value) || value < 0) return;
+                            editCell(row.habitId, date, { completed: value >= (item.dailyTarget ?? 0), value });
+                          }}
+                        />
+                      ) : (
+                        <input
+                          type="checkbox"
+                          checked={item.polarity === "quit" ? !cell.completed : cell.completed}
+                          aria-label={`${row.name} on ${date}`}
+                          onChange={(e) =>
+                            editCell(row.habitId, date, {
+                              completed: item.polarity === "quit" ? !e.target.checked : e.target.checked,
+                              value: null
+                            })
+                          }
+                        />
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {error && <p className="error">{error}</p>}
+
+      <div className="modal-actions">
+        <button type="button" className="ghost-btn" onClick={onClose}>
+          Cancel
+        </button>
+        <button type="button" className="add-habit-btn" disabled={saving || loading} onClick={() => void save()}>
+          {saving ? "Saving..." : `Save ${changedCount} change${changedCount === 1 ? "" : "s"}`}
+        </button>
+      </div>
+    </div>
+  );
+}
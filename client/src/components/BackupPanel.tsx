@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { type BackupFormat, downloadAccountExport, importAccount, type ImportMode, type ImportPreview } from "../api";
+import { ImportPreviewDetails } from "./ImportPreviewDetails";
+
+interface BackupPanelProps {
+  todayISO: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+/** Downloads a full-account backup, and previews (dry run) then applies an import. */
+export function BackupPanel({ todayISO, onClose, onImported }: BackupPanelProps) {
+  const [file, setFile] = useState<{ name: string; format: BackupFormat; data: unknown } | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function download(format: BackupFormat) {
+    try {
+      setError(null);
+      const blob = await downloadAccountExport(format);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `leetbit-backup-${todayISO}.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function pickFile(picked: File | undefined) {
+    setPreview(null);
+    setError(null);
+    if (!picked) {
+      setFile(null);
+      return;
+    }
+    const text = await picked.text();
+    if (picked.name.toLowerCase().endsWith(".csv")) {
+      setFile({ name: picked.name, format: "csv", data: text });
+      return;
+    }
+    try {
+      setFile({ name: picked.name, format: "json", data: JSON.parse(text) });
+    } catch {
+      setFile(null);
+      setError("That file is not valid JSON.");
+    }
+  }
+
+  async function runImport(dryRun: boolean) {
+    if (!file) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const result = await importAccount({ mode, dryRun, format: file.format, data: file.data });
+      if (dryRun) {
+        setPreview(result.preview);
+      } else {
+        onImported();
+      }
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="backup-panel">
+      <section>
+        <h3>Export</h3>
+        <p className="muted">Every habit, archived ones included, with all checkins and notes.</p>
+        <div className="modal-actions">
+          <button type="button" className="ghost-btn" onClick={() => void download("csv")}>
+            Download CSV
+          </button>
+          <button type="button" className="add-habit-btn" onClick={() => void download("json")}>
+            Download JSON
+          </button>
+        </div>
+      </section>
+
+      <section>
+        <h3>Import</h3>
+        <p className="muted">
+          JSON backups also restore excused days and journal entries; CSV backups hold habits and checkins.
+        </p>
+        <div className="schedule-fields">
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={(e) => void pickFile(e.target.files?.[0])}
+            aria-label="Backup file"
+          />
+          <select
+            value={mode}
+            onChange={(e) => {
+              setMode(e.target.value as ImportMode);
+              setPreview(null);
+            }}
+            aria-label="Import mode"
+          >
+            <option value="merge">Merge into this account</option>
+            <option value="replace">Replace this account</option>
+          </select>
+        </div>
+
+        {preview && <ImportPreviewDetails preview={preview} />}
+
+        {error && <p className="error">{error}</p>}
+
+        <div className="modal-actions">
+          <button type="button" className="ghost-btn" onClick={onClose}>
+            Close
+          </button>
+          {preview ? (
+            <button type="button" className="add-habit-btn" disabled={busy} onClick={() => void runImport(false)}>
+              {busy ? "Importing..." : mode === "replace" ? "Replace account" : "Merge backup"}
+            </button>
+          ) : (
+            <button type="button" className="add-habit-btn" disabled={!file || busy} onClick={() => void runImport(true)}>
+              {busy ? "Checking..." : "Preview import"}
+            </button>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import {
+  type BadgeOptions,
+  badgeUrl,
+  getBadgeToken,
+  resetBadgeToken,
+  revokeBadgeToken,
+  type ShareToken
+} from "../api";
+
+interface BadgePanelProps {
+  habits: Array<{ id: number; name: string }>;
+  years: number[];
+  theme: "light" | "dark";
+  onClose: () => void;
+}
+
+/** Builds an embeddable SVG heatmap link and manages the public token behind it. */
+export function BadgePanel({ habits, years, theme, onClose }: BadgePanelProps) {
+  const [share, setShare] = useState<ShareToken | null>(null);
+  const [options, setOptions] = useState<BadgeOptions>({ habitId: null, year: null, theme });
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getBadgeToken()
+      .then(setShare)
+      .catch((e) => setError((e as Error).message));
+  }, []);
+
+  async function run(action: () => Promise<ShareToken>) {
+    try {
+      setError(null);
+      setCopied(null);
+      setShare(await action());
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  const url = share?.token ? badgeUrl(share.token, options) : null;
+  const snippets = url
+    ? [
+        { label: "Markdown", text: `![Habit heatmap](${url})` },
+        { label: "HTML", text: `<img src="${url}" alt="Habit heatmap" />` }
+      ]
+    : [];
+
+  async function copy(label: string, text: string) {
+    await navigator.clipboard.writeText(text);
+    setCopied(label);
+  }
+
+  return (
+    <div className="backup-panel">
+      <p className="muted">
+        A contributions-style image of your heatmap for a README or personal site. Anyone with the link can see the
+        chosen habit's name and history; resetting the link breaks badges already embedded.
+      </p>
+      {!share ? (
+        <p className="muted">Loading...</p>
+      ) : url ? (
+        <>
+          <div className="schedule-fields">
+            <select
+              value={options.habitId ?? ""}
+              onChange={(e) => setOptions({ ...options, habitId: e.target.value ? Number(e.target.value) : null })}
+              aria-label="Badge habit"
+            >
+              <option value="">All habits</option>
+              {habits.map((habit) => (
+                <option key={habit.id} value={habit.id}>
+                  {habit.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={options.year ?? ""}
+              onChange={(e) => setOptions({ ...options, year: e.target.value ? Number(e.target.value) : null })}
+              aria-label="Badge period"
+            >
+              <option value="">Past year</option>
+              {years.map((year) => (
+                <option key={year} value={year}>
+                  {year}
+                </option>
+              ))}
+            </select>
+            <select
+              value={options.theme}
+              onChange={(e) => setOptions({ ...options, theme: e.target.value as BadgeOptions["theme"] })}
+              aria-label="Badge theme"
+            >
+              <option value="light">Light</option>
+              <option value="dark">Dark</option>
+            </select>
+          </div>
+          <img className="badge-preview" src={url} alt="Habit heatmap badge preview" />
+          {snippets.map((snippet) => (
+            <div key={snippet.label} className="badge-snippet">
+              <input
+                type="text"
+                value={snippet.text}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                aria-label={snippet.label}
+              />
+              <button type="button" className="ghost-btn" onClick={() => void copy(snippet.label, snippet.text)}>
+                {copied === snippet.label ? "Copied" : `Copy ${snippet.label}`}
+              </button>
+            </div>
+          ))}
+          <div className="modal-actions">
+            <button type="button" className="ghost-btn" onClick={() => void run(resetBadgeToken)}>
+              Reset link
+            </button>
+            <button
+              type="button"
+              className="delete-habit-btn"
+              onClick={() =>
+                void run(async () => {
+                  await revokeBadgeToken();
+                  return { token: null, createdAt: null };
+                })
+              }
+            >
+              Stop sharing
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="modal-actions">
+          <button type="button" className="add-habit-btn" onClick={() => void run(resetBadgeToken)}>
+            Create badge link
+          </button>
+        </div>
+      )}
+      {error && <p className="error">{error}</p>}
+      <div className="modal-actions">
+        <button type="button" className="ghost-btn" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import {
+  calendarFeedUrl,
+  type ShareToken,
+  getCalendarFeedToken,
+  resetCalendarFeedToken,
+  revokeCalendarFeedToken
+} from "../api";
+
+interface CalendarFeedPanelProps {
+  onClose: () => void;
+}
+
+/** Shows, creates, resets and turns off the secret iCalendar feed URL. */
+export function CalendarFeedPanel({ onClose }: CalendarFeedPanelProps) {
+  const [feed, setFeed] = useState<ShareToken | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCalendarFeedToken()
+      .then(setFeed)
+      .catch((e) => setError((e as Error).message));
+  }, []);
+
+  async function run(action: () => Promise<ShareToken>) {
+    try {
+      setError(null);
+      setCopied(false);
+      setFeed(await action());
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  const url = feed?.token ? calendarFeedUrl(feed.token) : null;
+
+  async function copyUrl() {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  }
+
+  return (
+    <div className="backup-panel">
+      <p className="muted">
+        Subscribe to this address in Google Calendar, Apple Calendar or Outlook to see each habit as a recurring
+        all-day event, with a ✓ event on every completed day. Anyone with the link can read it.
+      </p>
+      {!feed ? (
+        <p className="muted">Loading...</p>
+      ) : url ? (
+        <>
+          <input type="text" value={url} readOnly onFocus={(e) => e.target.select()} aria-label="Calendar feed URL" />
+          <div className="modal-actions">
+            <button type="button" className="ghost-btn" onClick={() => void copyUrl()}>
+              {copied ? "Copied" : "Copy link"}
+            </button>
+            <a className="ghost-btn" href={url.replace(/^https?:/, "webcal:")}>
+              Open in calendar app
+            </a>
+          </div>
+          <div className="modal-actions">
+            <button type="button" className="ghost-btn" onClick={() => void run(resetCalendarFeedToken)}>
+              Reset link
+            </button>
+            <button
+              type="button"
+              className="delete-habit-btn"
+              onClick={() =>
+                void run(async () => {
+                  await revokeCalendarFeedToken();
+                  return { token: null, createdAt: null };
+                })
+              }
+            >
+              Turn off feed
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="modal-actions">
+          <button type="button" className="add-habit-btn" onClick={() => void run(resetCalendarFeedToken)}>
+            Create feed link
+          </button>
+        </div>
+      )}
+      {error && <p className="error">{error}</p>}
+      <div className="modal-actions">
+        <button type="button" className="ghost-btn" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+export const DEFAULT_HABIT_COLOR = "#22c55e";
+
+interface CategoryFieldsProps {
+  category: string;
+  color: string;
+  categories: string[];
+  onChange: (next: { category: string; color: string }) => void;
+}
+
+export function CategoryFields({ category, color, categories, onChange }: CategoryFieldsProps) {
+  return (
+    <div className="category-fields">
+      <input
+        type="text"
+        value={category}
+        onChange={(e) => onChange({ category: e.target.value, color })}
+        placeholder="Category (optional), e.g. Health"
+        maxLength={40}
+        list="habit-categories"
+        aria-label="Category"
+      />
+      <datalist id="habit-categories">
+        {categories.map((entry) => (
+          <option key={entry} value={entry} />
+        ))}
+      </datalist>
+      <input
+        type="color"
+        value={color}
+        onChange={(e) => onChange({ category, color: e.target.value })}
+        aria-label="Color"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import {
+  type ColumnMapping,
+  type ExternalFormat,
+  type ExternalInspection,
+  type ImportDateFormat,
+  type ImportPreview,
+  importExternal,
+  inspectExternalImport
+} from "../api";
+import { ImportPreviewDetails } from "./ImportPreviewDetails";
+
+interface ExternalImportPanelProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const formatLabels: Record<ExternalFormat, string> = {
+  loop: "Loop Habit Tracker (Checkmarks.csv)",
+  generic: "CSV with date, habit and done columns",
+  markdown: "Markdown checklist journal"
+};
+
+const mappingFields: Array<{ field: keyof Omit<ColumnMapping, "dateFormat">; label: string; optional: boolean }> = [
+  { field: "date", label: "Date", optional: false },
+  { field: "habit", label: "Habit", optional: false },
+  { field: "done", label: "Done", optional: true },
+  { field: "value", label: "Amount", optional: true },
+  { field: "note", label: "Note", optional: true }
+];
+
+const dateFormats: ImportDateFormat[] = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY"];
+
+type DryRunResult = { rows: number; skipped: number; warnings: string[]; preview: ImportPreview };
+
+const emptyMapping: ColumnMapping = {
+  date: "",
+  habit: "",
+  done: null,
+  value: null,
+  note: null,
+  dateFormat: "YYYY-MM-DD"
+};
+
+/** Parse, map columns, preview, then merge another tracker's history into this account. */
+export function ExternalImportPanel({ onClose, onImported }: ExternalImportPanelProps) {
+  const [format, setFormat] = useState<ExternalFormat>("loop");
+  const [text, setText] = useState<string | null>(null);
+  const [inspection, setInspection] = useState<ExternalInspection | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>(emptyMapping);
+  const [result, setResult] = useState<DryRunResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function inspect(nextFormat: ExternalFormat, nextText: string | null) {
+    setInspection(null);
+    setResult(null);
+    setError(null);
+    if (!nextText) return;
+    try {
+      setBusy(true);
+      const found = await inspectExternalImport(nextFormat, nextText);
+      setInspection(found);
+      setMapping(found.mapping ?? emptyMapping);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function pickFile(picked: File | undefined) {
+    const nextText = picked ? await picked.text() : null;
+    setText(nextText);
+    await inspect(format, nextText);
+  }
+
+  function changeMapping(next: ColumnMapping) {
+    setMapping(next);
+    setResult(null);
+  }
+
+  async function runImport(dryRun: boolean) {
+    if (!text) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await importExternal({
+        format,
+        data: text,
+        mapping: format === "generic" ? mapping : null,
+        dryRun
+      });
+      if (dryRun) {
+        setResult(response);
+      } else {
+        onImported();
+      }
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const warnings = result?.warnings ?? inspection?.warnings ?? [];
+  const skipped = result?.skipped ?? inspection?.skipped ?? 0;
+
+  return (
+    <div className="backup-panel">
+      <p className="muted">
+        Habits are matched by name; new ones start on their first imported day. Nothing is saved until you confirm.
+      </p>
+      <div className="schedule-fields">
+        <select
+          value={format}
+          onChange={(e) => {
+            const nextFormat = e.target.value as ExternalFormat;
+            setFormat(nextFormat);
+            void inspect(nextFormat, text);
+          }}
+          aria-label="Import format"
+        >
+          {(Object.keys(formatLabels) as ExternalFormat[]).map((key) => (
+            <option key={key} value={key}>
+              {formatLabels[key]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="file"
+          accept={format === "markdown" ? ".md,.markdown,.txt,text/markdown,text/plain" : ".csv,text/csv"}
+          onChange={(e) => void pickFile(e.target.files?.[0])}
+          aria-label="File to import"
+        />
+      </div>
+
+      {format === "generic" && inspection && (
+        <div className="schedule-fields import-mapping">
+          {mappingFields.map(({ field, label, optional }) => (
+            <label key={field}>
+              {label}
+              <select
+                value={mapping[field] ?? ""}
+                onChange={(e) => changeMapping({ ...mapping, [field]: e.target.value || (optional ? null : "") })}
+              >
+                <option value="">{optional ? "None" : "Choose a column"}</option>
+                {inspection.columns.map((column) => (
+                  <option key={column} value={column}>
+                    {column}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <label>
+            Dates
+            <select
+              value={mapping.dateFormat}
+              onChange={(e) => changeMapping({ ...mapping, dateFormat: e.target.value as ImportDateFormat })}
+            >
+              {dateFormats.map((dateFormat) => (
+                <option key={dateFormat} value={dateFormat}>
+                  {dateFormat}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {inspection && !result && inspection.rows > 0 && (
+        <div className="backup-preview">
+          <p className="muted">
+            Found {inspection.rows} entries for {inspection.habits.join(", ")}.
+          </p>
+          <table className="backup-conflicts">
+            <thead>
+              <tr>
+                <th>Day</th>
+                <th>Habit</th>
+                <th>Done</th>
+                <th>Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {inspection.sample.map((row) => (
+                <tr key={`${row.habit}:${row.date}`}>
+                  <td>{row.date}</td>
+                  <td>{row.habit}</td>
+                  <td>{row.value !== null ? row.value : row.completed ? "yes" : "no"}</td>
+                  <td>{row.note}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {result && (
+        <>
+          <p className="muted">Read {result.rows} entries from the file.</p>
+          <ImportPreviewDetails preview={result.preview} incomingLabel="From file" />
+        </>
+      )}
+
+      {skipped > 0 && (
+        <div className="muted">
+          Skipped {skipped} unreadable rows:
+          <ul className="insight-list">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && <p className="error">{error}</p>}
+
+      <div className="modal-actions">
+        <button type="button" className="ghost-btn" onClick={onClose}>
+          Close
+        </button>
+        {result ? (
+          <button type="button" className="add-habit-btn" disabled={busy} onClick={() => void runImport(false)}>
+            {busy ? "Importing..." : "Import history"}
+          </button>
+        ) : (
+          <button type="button" className="add-habit-btn" disabled={!text || busy} onClick={() => void runImport(true)}>
+            {busy ? "Checking..." : "Preview import"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,11 +4,16 @@ import * as echarts from "echarts";
 export interface HabitHeatmapProps {
   startDate: string;
   endDate: string;
-  data: { date: string; count: number }[];
+  data: { date: string; count: number; value?: number | null; note?: string | null }[];
+  target?: { value: number; unit: string | null } | null;
+  excusedRanges?: Array<{ start: string; end: string }>;
   theme: "dark" | "light";
   selectedHabitId: number | null;
   habitOptions: Array<{ value: number; label: string }>;
   onHabitChange: (habitId: number) => void;
+  selectedCategory?: string;
+  categoryOptions?: Array<{ value: string; label: string }>;
+  onCategoryChange?: (category: string) => void;
   onOpenManageHabits: () => void;
   selectedYear: string;
   yearOptions: Array<{ value: string; label: string }>;
@@ -24,7 +29,26 @@ function toIsoDate(date: Date) {
   return date.toISOString().slice(0, 10);
 }
 
-function toHeatLevel(count: number) {
+const EXCUSED_LEVEL = -1;
+
+type HeatmapCell = [string, number, number, number | null, string | null];
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toHeatLevel(count: number, progress?: number) {
+  if (progress !== undefined) {
+    if (progress <= 0) return 0;
+    if (progress < 0.34) return 1;
+    if (progress < 0.67) return 2;
+    if (progress < 1) return 3;
+    return 4;
+  }
   if (count <= 0) return 0;
   if (count === 1) return 1;
   if (count <= 3) return 2;
@@ -120,10 +144,15 @@ export default function HabitHeatmap({
   startDate,
   endDate,
   data,
+  target,
+  excusedRanges,
   theme,
   selectedHabitId,
   habitOptions,
   onHabitChange,
+  selectedCategory,
+  categoryOptions,
+  onCategoryChange,
   onOpenManageHabits,
   selectedYear,
   yearOptions,
@@ -135,8 +164,8 @@ export default function HabitHeatmap({
   const { chartData, monthSegments, chartWidth } = useMemo(() => {
     const start = parseIsoDate(startDate);
     const end = parseIsoDate(endDate);
-    const countMap = new Map(data.map((entry) => [entry.date, entry.count]));
-    const values: [string, number, number][] = [];
+    const entryMap = new Map(data.map((entry) => [entry.date, entry]));
+    const values: HeatmapCell[] = [];
     const segments: Array<{ key: string; start: string; end: string; left: number }> = [];
     const cellSize = 16;
     const monthGap = 4;
@@ -144,8 +173,13 @@ export default function HabitHeatmap({
 
     for (const d = new Date(start); d <= end; d.setUTCDate(d.getUTCDate() + 1)) {
       const iso = toIsoDate(d);
-      const count = countMap.get(iso) ?? 0;
-      values.push([iso, toHeatLevel(count), count]);
+      const entry = entryMap.get(iso);
+      const count = entry?.count ?? 0;
+      const value = entry?.value ?? null;
+      const progress = target ? (value ?? 0) / target.value : undefined;
+      const level = toHeatLevel(count, progress);
+      const excused = (excusedRanges ?? []).some((range) => range.start <= iso && iso <= range.end);
+      values.push([iso, level === 0 && excused ? EXCUSED_LEVEL : level, count, value, entry?.note ?? null]);
     }
 
     let cursor = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1));
@@ -173,7 +207,7 @@ export default function HabitHeatmap({
       monthSegments: segments,
       chartWidth: Math.max(left + sidePadding - monthGap, 520)
     };
-  }, [data, endDate, startDate]);
+  }, [data, endDate, excusedRanges, startDate, target]);
 
   useEffect(() => {
     if (!chartRef.current) return;
@@ -210,22 +244,30 @@ export default function HabitHeatmap({
         borderColor: theme === "light" ? "#bfd0ea" : "#1e3a5f",
         borderWidth: 1,
         textStyle: { color: theme === "light" ? "#0f172a" : "#e2e8f0" },
-        formatter: (params: { data: [string, number, number] }) => {
-          const [date, _level, count] = params.data;
-          return `${date}<br/>Completed: ${count}`;
+        formatter: (params: { data: HeatmapCell }) => {
+          const [date, level, count, value, note] = params.data;
+          const noteLine = note ? `<br/><em>${escapeHtml(note)}</em>` : "";
+          if (level === EXCUSED_LEVEL) {
+            return `${date}<br/>Excused${noteLine}`;
+          }
+          if (target) {
+            const unit = target.unit ? ` ${target.unit}` : "";
+            return `${date}<br/>Logged: ${value ?? 0}/${target.value}${unit}${noteLine}`;
+          }
+          return `${date}<br/>Completed: ${count}${noteLine}`;
         }
       },
       visualMap: {
-        min: 0,
-        max: 4,
         show: false,
         type: "piecewise",
-        inRange: {
-          color:
-            theme === "light"
-              ? ["#eef3f8", "#9be9a8", "#40c463", "#30a14e", "#216e39"]
-              : ["#0e1f33", "#0e4429", "#006d32", "#26a641", "#39d353"]
-        }
+        dimension: 1,
+        pieces: [
+          { value: EXCUSED_LEVEL, color: theme === "light" ? "#dbe4f0" : "#1e2f4d" },
+          ...(theme === "light"
+            ? ["#eef3f8", "#9be9a8", "#40c463", "#30a14e", "#216e39"]
+            : ["#0e1f33", "#0e4429", "#006d32", "#26a641", "#39d353"]
+          ).map((color, level) => ({ value: level, color }))
+        ]
       },
       calendar: calendars,
       series: calendars.map((_c, index) => ({
@@ -243,7 +285,7 @@ export default function HabitHeatmap({
     if (onDateSelect) {
       chart.on("click", (params) => {
         if (params.componentType === "series") {
-          const dateStr = (params.data as [string, number, number])[0];
+          const dateStr = (params.data as HeatmapCell)[0];
           onDateSelect(dateStr);
         }
       });
@@ -256,7 +298,7 @@ export default function HabitHeatmap({
       window.removeEventListener("resize", onResize);
       chart.dispose();
     };
-  }, [chartData, endDate, monthSegments, startDate, theme]);
+  }, [chartData, endDate, monthSegments, startDate, target, theme]);
 
   return (
     <div className="heatmap-shell">
@@ -264,6 +306,14 @@ export default function HabitHeatmap({
         <span style={{ marginRight: 'auto', fontSize: '13px', color: '#94a3b8', alignSelf: 'center' }}>
           Click any past date to edit its checklist
         </span>
+        {categoryOptions && categoryOptions.length > 1 && onCategoryChange && (
+          <CustomSelect
+            label="Category"
+            value={selectedCategory ?? ""}
+            options={categoryOptions}
+            onChange={onCategoryChange}
+          />
+        )}
         <CustomSelect
           label="Habit"
           value={String(selectedHabitId ?? "")}
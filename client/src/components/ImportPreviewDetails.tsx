@@ -0,0 +1,78 @@
+import type { ImportCheckinState, ImportPreview } from "../api";
+
+interface ImportPreviewDetailsProps {
+  preview: ImportPreview;
+  incomingLabel?: string;
+}
+
+function describeCheckin(state: ImportCheckinState) {
+  const status = state.value !== null ? String(state.value) : state.completed ? "done" : "not done";
+  return state.note ? `${status} · “${state.note}”` : status;
+}
+
+/** What a dry-run import would change, with the conflicting days side by side. */
+export function ImportPreviewDetails({ preview, incomingLabel = "From backup" }: ImportPreviewDetailsProps) {
+  return (
+    <div className="backup-preview">
+      <ul className="insight-list">
+        {preview.mode === "replace" && (
+          <li>
+            Removes {preview.habits.removed} habits and {preview.checkins.removed} checkins first.
+          </li>
+        )}
+        <li>
+          Creates {preview.habits.created.length} habits
+          {preview.habits.matched.length > 0 && `, merges into ${preview.habits.matched.length} existing ones`}.
+        </li>
+        <li>
+          Adds {preview.checkins.added} checkins, overwrites {preview.checkins.overwritten}
+          {preview.checkins.unchanged > 0 && `, ${preview.checkins.unchanged} already match`}.
+        </li>
+        {preview.checkins.skipped > 0 && (
+          <li>Skips {preview.checkins.skipped} checkins on days their habit was not active.</li>
+        )}
+        {(preview.excused.added > 0 || preview.journal.added + preview.journal.overwritten > 0) && (
+          <li>
+            Adds {preview.excused.added} excused ranges and writes{" "}
+            {preview.journal.added + preview.journal.overwritten} journal entries.
+          </li>
+        )}
+        {preview.habits.backdated.length > 0 && (
+          <li>Moves the start date of {preview.habits.backdated.join(", ")} back to the first imported day.</li>
+        )}
+        {preview.settingConflicts.map((conflict) => (
+          <li key={conflict.habit}>
+            {conflict.habit}: keeps this account's {conflict.fields.join(", ")}.
+          </li>
+        ))}
+      </ul>
+      {preview.conflicts.length > 0 && (
+        <table className="backup-conflicts">
+          <thead>
+            <tr>
+              <th>Habit</th>
+              <th>Day</th>
+              <th>Now</th>
+              <th>{incomingLabel}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.conflicts.map((conflict) => (
+              <tr key={`${conflict.habit}:${conflict.date}`}>
+                <td>{conflict.habit}</td>
+                <td>{conflict.date}</td>
+                <td>{describeCheckin(conflict.existing)}</td>
+                <td>{describeCheckin(conflict.incoming)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {preview.checkins.overwritten > preview.conflicts.length && (
+        <p className="muted">
+          Showing {preview.conflicts.length} of {preview.checkins.overwritten} conflicting days.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import type { HabitInsights } from "../api";
+
+interface InsightsPanelProps {
+  insights: HabitInsights;
+}
+
+export function InsightsPanel({ insights }: InsightsPanelProps) {
+  if (insights.habitsCompared < 2) {
+    return <div className="empty-state">Track at least two habits to see how they relate.</div>;
+  }
+
+  return (
+    <div className="analytics-wrap">
+      <p className="muted">
+        Habit insights from {insights.range.start} to {insights.range.end}
+      </p>
+      <div className="analytics-bottom-row">
+        <div className="analytics-card">
+          <h3>Completed Together</h3>
+          {insights.together.length === 0 ? (
+            <p className="analytics-text">No habits move together yet.</p>
+          ) : (
+            <ul className="insight-list">
+              {insights.together.map((pair) => (
+                <li key={`${pair.habitId}-${pair.otherHabitId}`}>
+                  <strong>
+                    {pair.habitName} + {pair.otherHabitName}
+                  </strong>
+                  <span className="muted">
+                    both done {pair.bothDone} of {pair.sharedDays} days · correlation {pair.correlation}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="analytics-card">
+          <h3>When One Slips</h3>
+          {insights.missPredictors.length === 0 ? (
+            <p className="analytics-text">No miss predicts another yet.</p>
+          ) : (
+            <ul className="insight-list">
+              {insights.missPredictors.map((item) => (
+                <li key={`${item.habitId}-${item.otherHabitId}`}>{item.text}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="analytics-card">
+          <h3>Conditional Rates</h3>
+          {insights.conditionalRates.length === 0 ? (
+            <p className="analytics-text">Not enough shared days yet.</p>
+          ) : (
+            <ul className="insight-list">
+              {insights.conditionalRates.map((item) => (
+                <li key={`${item.habitId}-${item.otherHabitId}`}>{item.text}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
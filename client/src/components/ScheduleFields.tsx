@@ -0,0 +1,90 @@
+import type { HabitSchedule } from "../api";
+
+const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function describeSchedule(schedule: HabitSchedule) {
+  switch (schedule.type) {
+    case "weekdays":
+      return schedule.weekdays.map((day) => weekdayLabels[day]).join(", ");
+    case "weekly":
+      return `${schedule.perWeek}x per week`;
+    case "interval":
+      return schedule.everyDays === 1 ? "Daily" : `Every ${schedule.everyDays} days`;
+    default:
+      return "Daily";
+  }
+}
+
+interface ScheduleFieldsProps {
+  value: HabitSchedule;
+  onChange: (schedule: HabitSchedule) => void;
+}
+
+export function ScheduleFields({ value, onChange }: ScheduleFieldsProps) {
+  function changeType(type: HabitSchedule["type"]) {
+    if (type === "weekdays") onChange({ type, weekdays: [1, 2, 3, 4, 5] });
+    else if (type === "weekly") onChange({ type, perWeek: 3 });
+    else if (type === "interval") onChange({ type, everyDays: 2 });
+    else onChange({ type: "daily" });
+  }
+
+  function toggleWeekday(day: number) {
+    if (value.type !== "weekdays") return;
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter((entry) => entry !== day)
+      : [...value.weekdays, day].sort((a, b) => a - b);
+    if (weekdays.length === 0) return;
+    onChange({ type: "weekdays", weekdays });
+  }
+
+  return (
+    <div className="schedule-fields">
+      <select
+        value={value.type}
+        onChange={(e) => changeType(e.target.value as HabitSchedule["type"])}
+        aria-label="Schedule"
+      >
+        <option value="daily">Every day</option>
+        <option value="weekdays">Specific weekdays</option>
+        <option value="weekly">Times per week</option>
+        <option value="interval">Every N days</option>
+      </select>
+      {value.type === "weekdays" && (
+        <div className="weekday-toggles">
+          {weekdayLabels.map((label, day) => (
+            <button
+              type="button"
+              key={label}
+              className={value.weekdays.includes(day) ? "weekday-toggle active" : "weekday-toggle"}
+              onClick={() => toggleWeekday(day)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      {value.type === "weekly" && (
+        <input
+          type="number"
+          min={1}
+          max={7}
+          value={value.perWeek}
+          onChange={(e) => onChange({ type: "weekly", perWeek: Math.min(7, Math.max(1, Number(e.target.value))) })}
+          aria-label="Times per week"
+        />
+      )}
+      {value.type === "interval" && (
+        <input
+          type="number"
+          min={1}
+          max={365}
+          value={value.everyDays}
+          onChange={(e) =>
+            onChange({ type: "interval", everyDays: Math.min(365, Math.max(1, Number(e.target.value))) })
+          }
+          aria-label="Every N days"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import type { SummaryGranularity, SummaryOptions } from "../api";
+import { addDaysISO, quarterStartISO } from "../dates";
+
+export type SummaryRangePreset = "year" | "last30" | "last90" | "quarter" | "custom";
+
+export interface SummaryRange {
+  preset: SummaryRangePreset;
+  start: string;
+  end: string;
+  granularity: SummaryGranularity;
+  goal: number;
+}
+
+export const DEFAULT_SUMMARY_GOAL = 80;
+const GOAL_OPTIONS = [50, 60, 70, 75, 80, 85, 90, 95, 100];
+
+/** Request options for a picked range; "year" follows the year selected on the heatmap. */
+export function resolveSummaryRange(range: SummaryRange, todayISO: string, year: number): SummaryOptions {
+  const { granularity, goal } = range;
+  switch (range.preset) {
+    case "last30":
+      return { start: addDaysISO(todayISO, -29), end: todayISO, granularity, goal };
+    case "last90":
+      return { start: addDaysISO(todayISO, -89), end: todayISO, granularity, goal };
+    case "quarter":
+      return { start: quarterStartISO(todayISO), end: todayISO, granularity, goal };
+    case "custom":
+      return { start: range.start, end: range.end, granularity, goal };
+    default:
+      return { year, granularity, goal };
+  }
+}
+
+interface SummaryRangePickerProps {
+  value: SummaryRange;
+  year: number;
+  todayISO: string;
+  onChange: (range: SummaryRange) => void;
+}
+
+export function SummaryRangePicker({ value, year, todayISO, onChange }: SummaryRangePickerProps) {
+  return (
+    <div className="summary-range-picker">
+      <select
+        value={value.preset}
+        onChange={(e) => onChange({ ...value, preset: e.target.value as SummaryRangePreset })}
+        aria-label="Summary range"
+      >
+        <option value="year">{year}</option>
+        <option value="last30">Last 30 days</option>
+        <option value="last90">Last 90 days</option>
+        <option value="quarter">This quarter</option>
+        <option value="custom">Custom range</option>
+      </select>
+      {value.preset === "custom" && (
+        <>
+          <input
+            type="date"
+            value={value.start}
+            max={value.end}
+            onChange={(e) => e.target.value && onChange({ ...value, start: e.target.value })}
+            aria-label="Range start"
+          />
+          <span className="muted">to</span>
+          <input
+            type="date"
+            value={value.end}
+            min={value.start}
+            max={todayISO}
+            onChange={(e) => e.target.value && onChange({ ...value, end: e.target.value })}
+            aria-label="Range end"
+          />
+        </>
+      )}
+      <select
+        value={value.granularity}
+        onChange={(e) => onChange({ ...value, granularity: e.target.value as SummaryGranularity })}
+        aria-label="Group by"
+      >
+        <option value="day">Daily</option>
+        <option value="week">Weekly</option>
+        <option value="month">Monthly</option>
+        <option value="quarter">Quarterly</option>
+      </select>
+      <select
+        value={value.goal}
+        onChange={(e) => onChange({ ...value, goal: Number(e.target.value) })}
+        aria-label="Monthly goal"
+      >
+        {GOAL_OPTIONS.map((goal) => (
+          <option key={goal} value={goal}>
+            Goal {goal}%
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
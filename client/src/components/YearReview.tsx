@@ -0,0 +1,113 @@
+import type { YearReview as YearReviewData, YearReviewHabit } from "../api";
+import { addDaysISO } from "../dates";
+
+interface YearReviewProps {
+  review: YearReviewData;
+  yearOptions: Array<{ value: string; label: string }>;
+  onYearChange: (year: number) => void;
+}
+
+/** Every day of the year, padded at the front so each column is a Sunday-first week. */
+function yearCells(year: number) {
+  const first = `${year}-01-01`;
+  const padding = new Date(`${first}T00:00:00Z`).getUTCDay();
+  const cells: Array<string | null> = Array.from({ length: padding }, () => null);
+  for (let iso = first; iso.startsWith(String(year)); iso = addDaysISO(iso, 1)) cells.push(iso);
+  return cells;
+}
+
+function HabitMiniHeatmap({ habit, cells }: { habit: YearReviewHabit; cells: Array<string | null> }) {
+  const done = new Set(habit.doneDates);
+  const missed = new Set(habit.missedDates);
+  const color = habit.color ?? "#22c55e";
+
+  return (
+    <div className="review-habit">
+      <div className="review-habit-header">
+        <strong>{habit.name}</strong>
+        <span className="muted">
+          {habit.summary.consistency}% · {habit.summary.completed}/{habit.summary.total} · best streak {habit.longestStreak}
+        </span>
+      </div>
+      <div className="review-mini-heatmap">
+        {cells.map((iso, index) => (
+          <span
+            key={iso ?? `pad-${index}`}
+            className={iso && missed.has(iso) ? "review-cell missed" : "review-cell"}
+            style={iso && done.has(iso) ? { background: color } : undefined}
+            title={iso ?? undefined}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function YearReview({ review, yearOptions, onYearChange }: YearReviewProps) {
+  const cells = yearCells(review.year);
+
+  return (
+    <div className="review">
+      <div className="review-toolbar no-print">
+        <select value={String(review.year)} onChange={(e) => onYearChange(Number(e.target.value))} aria-label="Year">
+          {yearOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button type="button" className="ghost-btn" onClick={() => window.print()}>
+          Print recap
+        </button>
+      </div>
+
+      <h2 className="review-title">Your {review.year} in habits</h2>
+      {review.end < `${review.year}-12-31` && <p className="muted">So far, through {review.end}.</p>}
+
+      <div className="review-stats">
+        <div className="analytics-metric-card">
+          <p>Total Completions</p>
+          <h3>{review.totalCompletions}</h3>
+        </div>
+        <div className="analytics-metric-card">
+          <p>Consistency</p>
+          <h3>{review.summary.consistency}%</h3>
+        </div>
+        <div className="analytics-metric-card">
+          <p>Perfect Days</p>
+          <h3>{review.perfectDays}</h3>
+        </div>
+        <div className="analytics-metric-card">
+          <p>Longest Streak</p>
+          <h3>{review.longestStreak}</h3>
+        </div>
+        <div className="analytics-metric-card">
+          <p>Best Month</p>
+          <h3>{review.bestMonth ? `${review.bestMonth.label.split(" ")[0]} · ${review.bestMonth.consistency}%` : "N/A"}</h3>
+        </div>
+        <div className="analytics-metric-card">
+          <p>Best Weekday</p>
+          <h3>{review.bestWeekday}</h3>
+        </div>
+        <div className="analytics-metric-card">
+          <p>Most Improved</p>
+          <h3>
+            {review.mostImproved
+              ? `${review.mostImproved.name} (${review.mostImproved.from}% → ${review.mostImproved.to}%)`
+              : "N/A"}
+          </h3>
+        </div>
+      </div>
+
+      {review.habits.length === 0 ? (
+        <div className="empty-state">No habits were tracked in {review.year}.</div>
+      ) : (
+        <div className="review-habits">
+          {review.habits.map((habit) => (
+            <HabitMiniHeatmap key={habit.habitId} habit={habit} cells={cells} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+export const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/** Calendar date (YYYY-MM-DD) of `now` as seen in the given IANA time zone. */
+export function todayInTimeZone(timeZone: string, now = new Date()) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((entry) => entry.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+export function addDaysISO(iso: string, days: number) {
+  const date = new Date(`${iso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** First day of the calendar quarter containing `iso`. */
+export function quarterStartISO(iso: string) {
+  const month = Number(iso.slice(5, 7));
+  const startMonth = Math.floor((month - 1) / 3) * 3 + 1;
+  return `${iso.slice(0, 4)}-${String(startMonth).padStart(2, "0")}-01`;
+}
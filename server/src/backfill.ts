@@ -0,0 +1,73 @@
+import { isISODate } from "./dates.js";
+import { type HabitRow, isHabitActiveOnDate, resolveCheckin } from "./habits.js";
+
+export const MAX_BATCH_ENTRIES = 500;
+
+export interface BatchEntry {
+  habitId: number;
+  date: string;
+  completed: boolean;
+  value: number | null;
+}
+
+export interface BatchEntryResult {
+  index: number;
+  habitId: number | null;
+  date: string | null;
+  /** "valid" entries of a rejected batch were fine but not saved. */
+  status: "applied" | "valid" | "invalid";
+  message?: string;
+  completed?: boolean;
+  value?: number | null;
+}
+
+export function parseBatchInput(body: unknown): { entries: unknown[] } | { error: string } {
+  const entries = (body as { entries?: unknown } | undefined)?.entries;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return { error: "entries must be a non-empty array." };
+  }
+  if (entries.length > MAX_BATCH_ENTRIES) {
+    return { error: `A batch can hold at most ${MAX_BATCH_ENTRIES} entries.` };
+  }
+  return { entries };
+}
+
+/**
+ * Checks every entry with the rules of PUT /api/checklist/:habitId against the user's habits,
+ * resolving what each valid one would store. Nothing is written here.
+ */
+export function checkBatchEntries(rawEntries: unknown[], habits: HabitRow[], todayISO: string) {
+  const habitsById = new Map(habits.map((habit) => [habit.id, habit]));
+  const seen = new Set<string>();
+  const entries: BatchEntry[] = [];
+  const results: BatchEntryResult[] = rawEntries.map((raw, index) => {
+    const input = (raw ?? {}) as { habitId?: unknown; date?: unknown; completed?: unknown; value?: unknown };
+    const habitId = Number(input.habitId);
+    const date = String(input.date ?? "").trim();
+    const hasValue = input.value !== undefined && input.value !== null;
+    const value = Number(input.value);
+    const invalid = (message: string): BatchEntryResult => ({
+      index,
+      habitId: Number.isInteger(habitId) ? habitId : null,
+      date: date || null,
+      status: "invalid",
+      message
+    });
+
+    if (!Number.isInteger(habitId) || habitId <= 0) return invalid("Invalid habit id.");
+    if (!isISODate(date)) return invalid("date must be YYYY-MM-DD.");
+    if (hasValue && (!Number.isFinite(value) || value < 0)) return invalid("value must be a non-negative number.");
+    if (date > todayISO) return invalid("You cannot update checklist for future dates.");
+    const habit = habitsById.get(habitId);
+    if (!habit || !isHabitActiveOnDate(habit, date)) return invalid("Habit not found.");
+    const key = `${habitId}:${date}`;
+    if (seen.has(key)) return invalid("Duplicate entry for this habit and date.");
+    seen.add(key);
+
+    const resolved = resolveCheckin(habit, Boolean(input.completed), hasValue ? value : null);
+    entries.push({ habitId, date, ...resolved });
+    return { index, habitId, date, status: "valid", ...resolved };
+  });
+
+  return { entries, results, invalidCount: results.filter((result) => result.status === "invalid").length };
+}
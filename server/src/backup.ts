@@ -0,0 +1,650 @@
+import { csvRecords, parseCsv, toCsv } from "./csv.js";
+import { isISODate } from "./dates.js";
+import {
+  type ExcusedRange,
+  getHabitPolarity,
+  getHabitSchedule,
+  getInactiveRanges,
+  type HabitPolarity,
+  type HabitRow,
+  type HabitSchedule,
+  MAX_CHECKIN_NOTE_LENGTH,
+  MAX_JOURNAL_LENGTH,
+  parseCategoryInput,
+  parseColorInput,
+  parsePolarityInput,
+  parseScheduleInput,
+  parseTargetInput,
+  resolveCheckin
+} from "./habits.js";
+import type { HabitCheckinRow, JournalEntryRow, Repositories } from "./repositories/index.js";
+
+export const BACKUP_VERSION = 1;
+/** Conflicting days listed in a preview; the counts always cover all of them. */
+const MAX_LISTED_CONFLICTS = 200;
+
+export interface BackupHabit {
+  id: number;
+  name: string;
+  createdAt: string;
+  deletedOn: string | null;
+  schedule: HabitSchedule;
+  polarity: HabitPolarity;
+  unit: string | null;
+  dailyTarget: number | null;
+  category: string | null;
+  color: string | null;
+  inactiveRanges: Array<{ start: string; end: string }>;
+}
+
+export interface BackupCheckin {
+  habitId: number;
+  date: string;
+  completed: boolean;
+  value: number | null;
+  note: string | null;
+}
+
+export interface BackupExcusedRange {
+  /** null for account-wide ranges. */
+  habitId: number | null;
+  start: string;
+  end: string;
+  reason: string | null;
+}
+
+export interface Backup {
+  version: number;
+  exportedAt: string;
+  habits: BackupHabit[];
+  checkins: BackupCheckin[];
+  excused: BackupExcusedRange[];
+  journal: JournalEntryRow[];
+}
+
+export interface AccountData {
+  habits: HabitRow[];
+  checkins: HabitCheckinRow[];
+  excused: ExcusedRange[];
+  journal: JournalEntryRow[];
+}
+
+export type ImportMode = "merge" | "replace";
+
+type CheckinState = Pick<BackupCheckin, "completed" | "value" | "note">;
+
+export interface ImportConflict {
+  habit: string;
+  date: string;
+  existing: CheckinState;
+  incoming: CheckinState;
+}
+
+export interface ImportPreview {
+  mode: ImportMode;
+  habits: { created: string[]; matched: string[]; removed: number; backdated: string[] };
+  /** Matched habits whose settings differ from the backup; the account's settings are kept. */
+  settingConflicts: Array<{ habit: string; fields: string[] }>;
+  /** `skipped` counts checkins on days their habit was not active (before its start, deleted, paused or future). */
+  checkins: { added: number; overwritten: number; unchanged: number; removed: number; skipped: number };
+  conflicts: ImportConflict[];
+  excused: { added: number; removed: number };
+  journal: { added: number; overwritten: number; removed: number };
+}
+
+export interface ImportPlan {
+  preview: ImportPreview;
+  backup: Backup;
+  /** Backup habit ids of matched habits mapped to the account's ids; the others get created. */
+  matchedIds: Map<number, number>;
+  /** Earlier start dates for matched habits, by the account's habit id. */
+  startDates: Map<number, string>;
+  checkins: BackupCheckin[];
+  excused: BackupExcusedRange[];
+  journal: JournalEntryRow[];
+}
+
+const CSV_COLUMNS = [
+  "habit_id",
+  "habit",
+  "created_at",
+  "deleted_on",
+  "schedule",
+  "polarity",
+  "unit",
+  "daily_target",
+  "category",
+  "color",
+  "inactive_ranges",
+  "date",
+  "completed",
+  "value",
+  "note"
+];
+
+export async function loadAccountData(repos: Repositories, userId: number): Promise<AccountData> {
+  return {
+    habits: await repos.habits.listAll(userId),
+    checkins: await repos.checkins.listAllForUser(userId),
+    excused: await repos.excused.listForUser(userId),
+    journal: await repos.journal.listForUser(userId)
+  };
+}
+
+export function buildBackup(data: AccountData, exportedAt: string): Backup {
+  return {
+    version: BACKUP_VERSION,
+    exportedAt,
+    habits: data.habits.map((habit) => ({
+      id: habit.id,
+      name: habit.name,
+      createdAt: habit.created_at,
+      deletedOn: habit.deleted_on ?? null,
+      schedule: getHabitSchedule(habit),
+      polarity: getHabitPolarity(habit),
+      unit: habit.unit ?? null,
+      dailyTarget: habit.daily_target ?? null,
+      category: habit.category ?? null,
+      color: habit.color ?? null,
+      inactiveRanges: getInactiveRanges(habit)
+    })),
+    checkins: data.checkins.map((row) => ({
+      habitId: row.habit_id,
+      date: row.date,
+      completed: Boolean(row.completed),
+      value: row.value ?? null,
+      note: row.note ?? null
+    })),
+    excused: [...data.excused]
+      .sort((a, b) => a.start_date.localeCompare(b.start_date) || a.id - b.id)
+      .map((range) => ({
+        habitId: range.habit_id,
+        start: range.start_date,
+        end: range.end_date,
+        reason: range.reason ?? null
+      })),
+    journal: data.journal.map((entry) => ({ date: entry.date, body: entry.body }))
+  };
+}
+
+function scheduleToText(schedule: HabitSchedule) {
+  switch (schedule.type) {
+    case "weekdays":
+      return `weekdays:${schedule.weekdays.join(",")}`;
+    case "weekly":
+      return `weekly:${schedule.perWeek}`;
+    case "interval":
+      return `interval:${schedule.everyDays}`;
+    default:
+      return "daily";
+  }
+}
+
+function scheduleFromText(text: string) {
+  if (!text) return undefined;
+  const [type, detail = ""] = text.split(":");
+  return { type, weekdays: detail.split(",").filter(Boolean), perWeek: detail, everyDays: detail };
+}
+
+function rangesToText(ranges: Array<{ start: string; end: string }>) {
+  return ranges.map((range) => `${range.start}/${range.end}`).join(",");
+}
+
+/**
+ * One row per checkin, each carrying its habit's settings; habits without checkins get a single
+ * row with an empty date. Excused ranges and journal entries only travel in the JSON format.
+ */
+export function backupToCsv(backup: Backup) {
+  const rows: unknown[][] = [CSV_COLUMNS];
+  for (const habit of backup.habits) {
+    const habitCells = [
+      habit.id,
+      habit.name,
+      habit.createdAt,
+      habit.deletedOn,
+      scheduleToText(habit.schedule),
+      habit.polarity,
+      habit.unit,
+      habit.dailyTarget,
+      habit.category,
+      habit.color,
+      rangesToText(habit.inactiveRanges)
+    ];
+    const checkins = backup.checkins.filter((checkin) => checkin.habitId === habit.id);
+    if (checkins.length === 0) rows.push([...habitCells, "", "", "", ""]);
+    for (const checkin of checkins) {
+      rows.push([...habitCells, checkin.date, checkin.completed ? 1 : 0, checkin.value, checkin.note]);
+    }
+  }
+  return toCsv(rows);
+}
+
+function parseBackupHabit(raw: unknown, label: string, todayISO: string): { habit: BackupHabit } | { error: string } {
+  const input = (raw ?? {}) as Record<string, unknown>;
+  const id = Number(input.id);
+  const name = String(input.name ?? "").trim();
+  const createdAt = String(input.createdAt ?? "").trim();
+  const deletedOn = input.deletedOn ? String(input.deletedOn).trim() : null;
+  if (!Number.isInteger(id) || id <= 0) return { error: `${label}: id must be a positive integer.` };
+  if (!name) return { error: `${label}: name is required.` };
+  if (!isISODate(createdAt)) return { error: `${label}: createdAt must be YYYY-MM-DD.` };
+  if (createdAt > todayISO) return { error: `${label}: createdAt cannot be in the future.` };
+  if (deletedOn !== null && !isISODate(deletedOn)) return { error: `${label}: deletedOn must be YYYY-MM-DD.` };
+
+  const schedule = parseScheduleInput(input.schedule);
+  if ("error" in schedule) return { error: `${label}: ${schedule.error}` };
+  const target = parseTargetInput({ unit: input.unit, dailyTarget: input.dailyTarget });
+  if ("error" in target) return { error: `${label}: ${target.error}` };
+  const polarity = parsePolarityInput(input.polarity);
+  if ("error" in polarity) return { error: `${label}: ${polarity.error}` };
+  if (polarity.polarity === "quit" && (schedule.schedule.type !== "daily" || target.dailyTarget !== null)) {
+    return { error: `${label}: Quit habits are tracked daily and cannot have a target.` };
+  }
+  const category = parseCategoryInput(input.category);
+  if ("error" in category) return { error: `${label}: ${category.error}` };
+  const color = parseColorInput(input.color);
+  if ("error" in color) return { error: `${label}: ${color.error}` };
+
+  const rawRanges = Array.isArray(input.inactiveRanges) ? input.inactiveRanges : [];
+  const inactiveRanges = rawRanges.map((range) => ({
+    start: String((range as { start?: unknown })?.start ?? ""),
+    end: String((range as { end?: unknown })?.end ?? "")
+  }));
+  if (inactiveRanges.some((range) => !isISODate(range.start) || !isISODate(range.end) || range.start > range.end)) {
+    return { error: `${label}: inactiveRanges must hold YYYY-MM-DD start and end dates with start <= end.` };
+  }
+
+  return {
+    habit: {
+      id,
+      name,
+      createdAt,
+      deletedOn,
+      schedule: schedule.schedule,
+      polarity: polarity.polarity,
+      unit: target.unit,
+      dailyTarget: target.dailyTarget,
+      category: category.category,
+      color: color.color,
+      inactiveRanges
+    }
+  };
+}
+
+function parseBackupCheckin(raw: unknown, label: string): { checkin: BackupCheckin } | { error: string } {
+  const input = (raw ?? {}) as Record<string, unknown>;
+  const habitId = Number(input.habitId);
+  const date = String(input.date ?? "").trim();
+  const hasValue = input.value !== undefined && input.value !== null && input.value !== "";
+  const value = Number(input.value);
+  const note = String(input.note ?? "").trim();
+  if (!Number.isInteger(habitId) || habitId <= 0) return { error: `${label}: habitId must be a positive integer.` };
+  if (!isISODate(date)) return { error: `${label}: date must be YYYY-MM-DD.` };
+  if (note.length > MAX_CHECKIN_NOTE_LENGTH) {
+    return { error: `${label}: note must be at most ${MAX_CHECKIN_NOTE_LENGTH} characters.` };
+  }
+  if (hasValue && (!Number.isFinite(value) || value < 0)) {
+    return { error: `${label}: value must be a non-negative number.` };
+  }
+  const completed = input.completed === true || input.completed === 1 || input.completed === "1";
+  return { checkin: { habitId, date, completed, value: hasValue ? value : null, note: note || null } };
+}
+
+/**
+ * Validates a backup document with the same rules as the endpoints that write each kind of row:
+ * unique habit ids and names, checkins only for listed habits, note and journal length limits.
+ */
+export function parseBackup(data: unknown, todayISO: string): { backup: Backup } | { error: string } {
+  const input = (data ?? {}) as Record<string, unknown>;
+  if (input.version !== undefined && Number(input.version) !== BACKUP_VERSION) {
+    return { error: `Unsupported backup version ${String(input.version)}.` };
+  }
+  if (!Array.isArray(input.habits)) return { error: "The backup has no habits list." };
+
+  const habits: BackupHabit[] = [];
+  const names = new Set<string>();
+  for (const [index, raw] of input.habits.entries()) {
+    const parsed = parseBackupHabit(raw, `habits[${index}]`, todayISO);
+    if ("error" in parsed) return parsed;
+    const key = parsed.habit.name.toLowerCase();
+    if (habits.some((habit) => habit.id === parsed.habit.id)) return { error: `habits[${index}]: duplicate id.` };
+    if (names.has(key)) return { error: `habits[${index}]: duplicate name "${parsed.habit.name}".` };
+    names.add(key);
+    habits.push(parsed.habit);
+  }
+  const habitIds = new Set(habits.map((habit) => habit.id));
+
+  const checkins: BackupCheckin[] = [];
+  const seen = new Set<string>();
+  for (const [index, raw] of (Array.isArray(input.checkins) ? input.checkins : []).entries()) {
+    const parsed = parseBackupCheckin(raw, `checkins[${index}]`);
+    if ("error" in parsed) return parsed;
+    const { habitId, date } = parsed.checkin;
+    if (!habitIds.has(habitId)) return { error: `checkins[${index}]: unknown habitId ${habitId}.` };
+    if (seen.has(`${habitId}:${date}`)) return { error: `checkins[${index}]: duplicate day for this habit.` };
+    seen.add(`${habitId}:${date}`);
+    checkins.push(parsed.checkin);
+  }
+
+  const excused: BackupExcusedRange[] = [];
+  for (const [index, raw] of (Array.isArray(input.excused) ? input.excused : []).entries()) {
+    const range = (raw ?? {}) as Record<string, unknown>;
+    const habitId = range.habitId === null || range.habitId === undefined ? null : Number(range.habitId);
+    const start = String(range.start ?? "");
+    const end = String(range.end ?? "");
+    const reason = String(range.reason ?? "").trim();
+    if (habitId !== null && !habitIds.has(habitId)) return { error: `excused[${index}]: unknown habitId.` };
+    if (!isISODate(start) || !isISODate(end) || start > end) {
+      return { error: `excused[${index}]: start and end must be YYYY-MM-DD with start <= end.` };
+    }
+    if (reason.length > 120) return { error: `excused[${index}]: reason must be at most 120 characters.` };
+    excused.push({ habitId, start, end, reason: reason || null });
+  }
+
+  const journal: JournalEntryRow[] = [];
+  for (const [index, raw] of (Array.isArray(input.journal) ? input.journal : []).entries()) {
+    const entry = (raw ?? {}) as Record<string, unknown>;
+    const date = String(entry.date ?? "");
+    const body = String(entry.body ?? "").trim();
+    if (!isISODate(date)) return { error: `journal[${index}]: date must be YYYY-MM-DD.` };
+    if (date > todayISO) return { error: `journal[${index}]: date cannot be in the future.` };
+    if (body.length > MAX_JOURNAL_LENGTH) {
+      return { error: `journal[${index}]: entry must be at most ${MAX_JOURNAL_LENGTH} characters.` };
+    }
+    if (journal.some((existing) => existing.date === date)) return { error: `journal[${index}]: duplicate date.` };
+    if (body) journal.push({ date, body });
+  }
+
+  return {
+    backup: {
+      version: BACKUP_VERSION,
+      exportedAt: String(input.exportedAt ?? ""),
+      habits,
+      checkins,
+      excused,
+      journal
+    }
+  };
+}
+
+/** Reads the CSV written by backupToCsv. Rows without a habit_id are grouped by habit name. */
+export function parseBackupCsv(text: string, todayISO: string): { backup: Backup } | { error: string } {
+  const records = csvRecords(parseCsv(text));
+  if (records.length === 0) return { error: "The CSV file has no rows." };
+  const missing = ["habit", "created_at", "date"].filter((column) => !(column in records[0]));
+  if (missing.length > 0) return { error: `The CSV file is missing columns: ${missing.join(", ")}.` };
+
+  const habitsByKey = new Map<string, Record<string, unknown>>();
+  const checkins: Array<Record<string, unknown>> = [];
+  for (const record of records) {
+    const key = record.habit_id || `name:${record.habit.toLowerCase()}`;
+    if (!habitsByKey.has(key)) {
+      habitsByKey.set(key, {
+        id: habitsByKey.size + 1,
+        name: record.habit,
+        createdAt: record.created_at,
+        deletedOn: record.deleted_on || null,
+        schedule: scheduleFromText(record.schedule ?? ""),
+        polarity: record.polarity || undefined,
+        unit: record.unit,
+        dailyTarget: record.daily_target,
+        category: record.category,
+        color: record.color,
+        inactiveRanges: (record.inactive_ranges ?? "")
+          .split(",")
+          .filter(Boolean)
+          .map((range) => {
+            const [start, end] = range.split("/");
+            return { start, end };
+          })
+      });
+    }
+    if (record.date) {
+      checkins.push({
+        habitId: habitsByKey.get(key)?.id,
+        date: record.date,
+        completed: record.completed,
+        value: record.value,
+        note: record.note
+      });
+    }
+  }
+  return parseBackup({ habits: [...habitsByKey.values()], checkins }, todayISO);
+}
+
+export function parseImportInput(
+  body: unknown,
+  todayISO: string
+): { mode: ImportMode; dryRun: boolean; backup: Backup } | { error: string } {
+  const input = (body ?? {}) as { mode?: unknown; dryRun?: unknown; format?: unknown; data?: unknown };
+  const mode = input.mode ?? "merge";
+  if (mode !== "merge" && mode !== "replace") return { error: "mode must be merge or replace." };
+  const format = input.format ?? "json";
+  if (format !== "json" && format !== "csv") return { error: "format must be json or csv." };
+  if (format === "csv" && typeof input.data !== "string") return { error: "data must be the CSV text." };
+  if (format === "json" && (typeof input.data !== "object" || input.data === null)) {
+    return { error: "data must be the exported JSON document." };
+  }
+  const parsed =
+    format === "csv" ? parseBackupCsv(input.data as string, todayISO) : parseBackup(input.data, todayISO);
+  if ("error" in parsed) return parsed;
+  return { mode, dryRun: input.dryRun === true, backup: parsed.backup };
+}
+
+function sameCheckin(a: CheckinState, b: CheckinState) {
+  return a.completed === b.completed && a.value === b.value && a.note === b.note;
+}
+
+function changedSettings(existing: BackupHabit, incoming: BackupHabit) {
+  const fields: Array<keyof BackupHabit> = [
+    "createdAt",
+    "deletedOn",
+    "schedule",
+    "polarity",
+    "unit",
+    "dailyTarget",
+    "category",
+    "color",
+    "inactiveRanges"
+  ];
+  return fields.filter((field) => JSON.stringify(existing[field]) !== JSON.stringify(incoming[field]));
+}
+
+/** The same active-day rule the checklist endpoints apply before accepting a checkin. */
+function isActiveOn(habit: BackupHabit | undefined, dateISO: string, todayISO: string) {
+  if (!habit || dateISO > todayISO || dateISO < habit.createdAt) return false;
+  if (habit.deletedOn && dateISO >= habit.deletedOn) return false;
+  return !habit.inactiveRanges.some((range) => range.start <= dateISO && dateISO <= range.end);
+}
+
+/** Grades an imported checkin like the checklist endpoint would for `habit`, e.g. against its daily target. */
+function resolveImported(habit: BackupHabit, checkin: BackupCheckin): BackupCheckin {
+  const row = { id: habit.id, name: habit.name, created_at: habit.createdAt, daily_target: habit.dailyTarget };
+  return { ...checkin, ...resolveCheckin(row, checkin.completed, checkin.value) };
+}
+
+/**
+ * Works out what an import would change without writing anything. Merge matches habits by name
+ * (case-insensitive) and keeps the account's settings for them; backup checkins and journal
+ * entries fill empty days and overwrite differing ones. Replace starts from an empty account.
+ * `historyOnly` imports (from other apps) carry no real settings, so matched habits are only
+ * moved to an earlier start date when the imported days begin before it.
+ */
+export function planImport(
+  backup: Backup,
+  current: AccountData,
+  mode: ImportMode,
+  todayISO: string,
+  options: { historyOnly?: boolean } = {}
+): ImportPlan {
+  const preview: ImportPreview = {
+    mode,
+    habits: { created: [], matched: [], removed: 0, backdated: [] },
+    settingConflicts: [],
+    checkins: { added: 0, overwritten: 0, unchanged: 0, removed: 0, skipped: 0 },
+    conflicts: [],
+    excused: { added: 0, removed: 0 },
+    journal: { added: 0, overwritten: 0, removed: 0 }
+  };
+  const plan: ImportPlan = {
+    preview,
+    backup,
+    matchedIds: new Map(),
+    startDates: new Map(),
+    checkins: [],
+    excused: [],
+    journal: []
+  };
+
+  const incomingById = new Map(backup.habits.map((habit) => [habit.id, habit]));
+  if (mode === "replace") {
+    const checkins: BackupCheckin[] = [];
+    for (const checkin of backup.checkins) {
+      const habit = incomingById.get(checkin.habitId);
+      if (habit && isActiveOn(habit, checkin.date, todayISO)) checkins.push(resolveImported(habit, checkin));
+    }
+    preview.habits = {
+      created: backup.habits.map((habit) => habit.name),
+      matched: [],
+      removed: current.habits.length,
+      backdated: []
+    };
+    preview.checkins = {
+      added: checkins.length,
+      overwritten: 0,
+      unchanged: 0,
+      removed: current.checkins.length,
+      skipped: backup.checkins.length - checkins.length
+    };
+    preview.excused = { added: backup.excused.length, removed: current.excused.length };
+    preview.journal = { added: backup.journal.length, overwritten: 0, removed: current.journal.length };
+    return { ...plan, checkins, excused: backup.excused, journal: backup.journal };
+  }
+
+  const existing = buildBackup(current, "");
+  const existingByName = new Map(existing.habits.map((habit) => [habit.name.toLowerCase(), habit]));
+  const existingById = new Map(existing.habits.map((habit) => [habit.id, habit]));
+  for (const habit of backup.habits) {
+    const match = existingByName.get(habit.name.toLowerCase());
+    if (!match) {
+      preview.habits.created.push(habit.name);
+      continue;
+    }
+    plan.matchedIds.set(habit.id, match.id);
+    preview.habits.matched.push(habit.name);
+    if (options.historyOnly) {
+      if (habit.createdAt < match.createdAt) {
+        plan.startDates.set(match.id, habit.createdAt);
+        preview.habits.backdated.push(match.name);
+      }
+      continue;
+    }
+    const fields = changedSettings(match, habit);
+    if (fields.length > 0) preview.settingConflicts.push({ habit: match.name, fields });
+  }
+
+  const existingCheckins = new Map(existing.checkins.map((checkin) => [`${checkin.habitId}:${checkin.date}`, checkin]));
+  for (const incoming of backup.checkins) {
+    const targetId = plan.matchedIds.get(incoming.habitId);
+    // Matched habits keep the account's active days and target, moved back by any start date the import brings.
+    const target = targetId === undefined ? incomingById.get(incoming.habitId) : existingById.get(targetId);
+    const startDate = targetId === undefined ? undefined : plan.startDates.get(targetId);
+    if (!target || !isActiveOn(startDate ? { ...target, createdAt: startDate } : target, incoming.date, todayISO)) {
+      preview.checkins.skipped += 1;
+      continue;
+    }
+    const checkin = resolveImported(target, incoming);
+    const stored = targetId === undefined ? undefined : existingCheckins.get(`${targetId}:${checkin.date}`);
+    if (!stored) {
+      preview.checkins.added += 1;
+    } else if (sameCheckin(stored, checkin)) {
+      preview.checkins.unchanged += 1;
+      continue;
+    } else {
+      preview.checkins.overwritten += 1;
+      if (preview.conflicts.length < MAX_LISTED_CONFLICTS) {
+        preview.conflicts.push({
+          habit: incomingById.get(checkin.habitId)?.name ?? "",
+          date: checkin.date,
+          existing: { completed: stored.completed, value: stored.value, note: stored.note },
+          incoming: { completed: checkin.completed, value: checkin.value, note: checkin.note }
+        });
+      }
+    }
+    plan.checkins.push(checkin);
+  }
+
+  for (const range of backup.excused) {
+    const habitId = range.habitId === null ? null : plan.matchedIds.get(range.habitId);
+    const known =
+      habitId !== undefined &&
+      existing.excused.some(
+        (other) => other.habitId === habitId && other.start === range.start && other.end === range.end
+      );
+    if (known) continue;
+    preview.excused.added += 1;
+    plan.excused.push(range);
+  }
+
+  const existingJournal = new Map(existing.journal.map((entry) => [entry.date, entry.body]));
+  for (const entry of backup.journal) {
+    const body = existingJournal.get(entry.date);
+    if (body === entry.body) continue;
+    if (body === undefined) preview.journal.added += 1;
+    else preview.journal.overwritten += 1;
+    plan.journal.push(entry);
+  }
+
+  return plan;
+}
+
+/** Writes a plan with the repositories of the caller's transaction. Rollups are rebuilt lazily afterwards. */
+export async function applyImport(repos: Repositories, userId: number, plan: ImportPlan) {
+  if (plan.preview.mode === "replace") {
+    await repos.checkins.removeForUser(userId);
+    await repos.excused.removeForUser(userId);
+    await repos.journal.removeForUser(userId);
+    await repos.habits.removeForUser(userId);
+  }
+
+  for (const [habitId, createdAt] of plan.startDates) {
+    await repos.habits.setCreatedAt(userId, habitId, createdAt);
+  }
+
+  const habitIds = new Map(plan.matchedIds);
+  for (const habit of plan.backup.habits) {
+    if (habitIds.has(habit.id)) continue;
+    const habitId = await repos.habits.create(userId, {
+      name: habit.name,
+      createdAt: habit.createdAt,
+      schedule: habit.schedule,
+      unit: habit.unit,
+      dailyTarget: habit.dailyTarget,
+      polarity: habit.polarity,
+      category: habit.category,
+      color: habit.color
+    });
+    if (habit.deletedOn || habit.inactiveRanges.length > 0) {
+      await repos.habits.setLifecycle(userId, habitId, habit.deletedOn, rangesToText(habit.inactiveRanges) || null);
+    }
+    habitIds.set(habit.id, habitId);
+  }
+
+  for (const checkin of plan.checkins) {
+    const habitId = habitIds.get(checkin.habitId);
+    if (habitId === undefined) continue;
+    await repos.checkins.put(habitId, checkin.date, checkin.completed, checkin.value, checkin.note);
+  }
+  for (const range of plan.excused) {
+    await repos.excused.create(userId, {
+      habit_id: range.habitId === null ? null : (habitIds.get(range.habitId) ?? null),
+      start_date: range.start,
+      end_date: range.end,
+      reason: range.reason
+    });
+  }
+  for (const entry of plan.journal) {
+    await repos.journal.save(userId, entry.date, entry.body);
+  }
+  await repos.rollups.removeForUser(userId);
+}
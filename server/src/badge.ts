@@ -0,0 +1,157 @@
+import { addDaysISO, daysBetweenISO, fromISODate } from "./dates.js";
+
+export type BadgeTheme = "light" | "dark";
+
+/** Longest range one badge renders: a leap year. */
+export const BADGE_MAX_DAYS = 366;
+
+export interface BadgeDay {
+  count: number;
+  value: number | null;
+}
+
+export interface HeatmapBadgeInput {
+  title: string;
+  start: string;
+  end: string;
+  days: Map<string, BadgeDay>;
+  target: number | null;
+  excused: Array<{ start: string; end: string }>;
+  theme: BadgeTheme;
+}
+
+const EXCUSED_LEVEL = -1;
+
+// Same colours as the in-app heatmap, so a badge looks like the chart it was shared from.
+const PALETTES: Record<BadgeTheme, { levels: string[]; excused: string; background: string; text: string }> = {
+  light: {
+    levels: ["#eef3f8", "#9be9a8", "#40c463", "#30a14e", "#216e39"],
+    excused: "#dbe4f0",
+    background: "#ffffff",
+    text: "#64748b"
+  },
+  dark: {
+    levels: ["#0e1f33", "#0e4429", "#006d32", "#26a641", "#39d353"],
+    excused: "#1e2f4d",
+    background: "#0b1728",
+    text: "#8b949e"
+  }
+};
+
+const CELL = 10;
+const STEP = 13;
+const PADDING = 10;
+const LABEL_WIDTH = 28;
+const TITLE_HEIGHT = 20;
+const MONTH_HEIGHT = 14;
+const LEGEND_HEIGHT = 22;
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** Mirrors `toHeatLevel` in the client's HeatmapChart: progress towards a target, else the completion count. */
+export function toHeatLevel(count: number, progress?: number) {
+  if (progress !== undefined) {
+    if (progress <= 0) return 0;
+    if (progress < 0.34) return 1;
+    if (progress < 0.67) return 2;
+    if (progress < 1) return 3;
+    return 4;
+  }
+  if (count <= 0) return 0;
+  if (count === 1) return 1;
+  if (count <= 3) return 2;
+  if (count <= 6) return 3;
+  return 4;
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function describeDay(date: string, level: number, day: BadgeDay | undefined, target: number | null) {
+  if (level === EXCUSED_LEVEL) return `${date}: excused`;
+  if (target !== null) return `${date}: ${day?.value ?? 0}/${target}`;
+  return `${date}: ${day?.count ?? 0} completed`;
+}
+
+/**
+ * A GitHub-style contributions grid as a standalone SVG: one column per week (Sunday first, like
+ * the in-app chart), month labels on top and a Less/More legend underneath.
+ */
+export function renderHeatmapBadge({ title, start, end, days, target, excused, theme }: HeatmapBadgeInput) {
+  const palette = PALETTES[theme];
+  const dayOffset = fromISODate(start).getUTCDay();
+  const dayCount = daysBetweenISO(start, end) + 1;
+  const columns = Math.ceil((dayOffset + dayCount) / 7);
+  const gridLeft = PADDING + LABEL_WIDTH;
+  const gridTop = PADDING + TITLE_HEIGHT + MONTH_HEIGHT;
+  const width = Math.max(gridLeft + columns * STEP + PADDING, 260);
+  const height = gridTop + 7 * STEP + LEGEND_HEIGHT + PADDING;
+
+  const cells: string[] = [];
+  const months: string[] = [];
+  let lastMonthColumn = -Infinity;
+  // A range starting late in a month leaves no room for that month's label before the next one.
+  const startsLateInMonth = dayCount > 14 && Number(start.slice(8, 10)) > 17;
+  let total = 0;
+  for (let index = 0; index < dayCount; index += 1) {
+    const date = addDaysISO(start, index);
+    const column = Math.floor((dayOffset + index) / 7);
+    const row = (dayOffset + index) % 7;
+    const day = days.get(date);
+    total += day?.count ?? 0;
+    const level = toHeatLevel(day?.count ?? 0, target !== null ? (day?.value ?? 0) / target : undefined);
+    const isExcused = excused.some((range) => range.start <= date && date <= range.end);
+    const shown = level === 0 && isExcused ? EXCUSED_LEVEL : level;
+    const fill = shown === EXCUSED_LEVEL ? palette.excused : palette.levels[shown];
+    cells.push(
+      `<rect x="${gridLeft + column * STEP}" y="${gridTop + row * STEP}" width="${CELL}" height="${CELL}" ` +
+        `rx="2" fill="${fill}"><title>${describeDay(date, shown, day, target)}</title></rect>`
+    );
+    // Label a month where its first day falls, unless that crowds the previous label.
+    if ((index === 0 ? !startsLateInMonth : date.endsWith("-01")) && column - lastMonthColumn >= 3) {
+      const month = MONTH_NAMES[Number(date.slice(5, 7)) - 1];
+      months.push(`<text x="${gridLeft + column * STEP}" y="${gridTop - 4}">${month}</text>`);
+      lastMonthColumn = column;
+    }
+  }
+
+  const weekdays = [
+    [1, "Mon"],
+    [3, "Wed"],
+    [5, "Fri"]
+  ].map(([row, label]) => `<text x="${PADDING}" y="${gridTop + Number(row) * STEP + CELL - 1}">${label}</text>`);
+
+  const legendTop = gridTop + 7 * STEP + 8;
+  const legendLeft = width - PADDING - 5 * STEP - 60;
+  const legend = [
+    `<text x="${legendLeft}" y="${legendTop + CELL - 1}">Less</text>`,
+    ...palette.levels.map(
+      (fill, level) =>
+        `<rect x="${legendLeft + 30 + level * STEP}" y="${legendTop}" width="${CELL}" height="${CELL}" ` +
+        `rx="2" fill="${fill}"/>`
+    ),
+    `<text x="${legendLeft + 34 + 5 * STEP}" y="${legendTop + CELL - 1}">More</text>`
+  ];
+
+  const heading = `${title} · ${total} completed, ${start} to ${end}`;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+      `role="img" aria-label="${escapeXml(heading)}">`,
+    `<title>${escapeXml(heading)}</title>`,
+    `<rect width="${width}" height="${height}" rx="6" fill="${palette.background}"/>`,
+    `<g font-family="-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif" ` +
+      `font-size="10" fill="${palette.text}">`,
+    `<text x="${PADDING}" y="${PADDING + 12}" font-size="12" font-weight="600">${escapeXml(title)}</text>`,
+    `<text x="${width - PADDING}" y="${PADDING + 12}" text-anchor="end">${total} completed</text>`,
+    ...months,
+    ...weekdays,
+    ...legend,
+    "</g>",
+    ...cells,
+    "</svg>"
+  ].join("\n");
+}
@@ -0,0 +1,105 @@
+export function toISODate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function fromISODate(date: string) {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+export function addDaysUTC(date: Date, days: number) {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+export function startOfISOWeek(date: Date) {
+  const day = date.getUTCDay();
+  const diff = (day + 6) % 7;
+  return addDaysUTC(date, -diff);
+}
+
+export function endOfISOWeek(date: Date) {
+  return addDaysUTC(startOfISOWeek(date), 6);
+}
+
+export function endOfMonthUTC(year: number, monthZeroBased: number) {
+  return new Date(Date.UTC(year, monthZeroBased + 1, 0));
+}
+
+export function monthLabel(year: number, monthZeroBased: number) {
+  return new Date(Date.UTC(year, monthZeroBased, 1)).toLocaleString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC"
+  });
+}
+
+export function dayBeforeISO(dateISO: string) {
+  return toISODate(addDaysUTC(fromISODate(dateISO), -1));
+}
+
+export function addDaysISO(dateISO: string, days: number) {
+  return toISODate(addDaysUTC(fromISODate(dateISO), days));
+}
+
+export function daysBetweenISO(startISO: string, endISO: string) {
+  return Math.round((fromISODate(endISO).getTime() - fromISODate(startISO).getTime()) / 86400000);
+}
+
+/** Whether `value` is a real calendar day written as YYYY-MM-DD; "2025-13-01" and "2025-02-30" are not. */
+export function isISODate(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = fromISODate(value);
+  return !Number.isNaN(date.getTime()) && toISODate(date) === value;
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Calendar date (YYYY-MM-DD) of `now` as seen in the given IANA time zone. */
+export function todayInTimeZone(timeZone: string, now = new Date()) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((entry) => entry.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+export type Granularity = "day" | "week" | "month" | "quarter";
+
+export const GRANULARITIES: Granularity[] = ["day", "week", "month", "quarter"];
+
+/** Splits [startISO, endISO] into calendar buckets (ISO weeks, months, quarters); the outer ones may be partial. */
+export function splitRange(startISO: string, endISO: string, granularity: Granularity) {
+  const buckets: Array<{ label: string; start: string; end: string }> = [];
+  for (let start = startISO; start <= endISO; ) {
+    const date = fromISODate(start);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    let bucketEnd = start;
+    let label = start;
+    if (granularity === "week") {
+      bucketEnd = toISODate(endOfISOWeek(date));
+    } else if (granularity === "month") {
+      bucketEnd = toISODate(endOfMonthUTC(year, month));
+      label = monthLabel(year, month);
+    } else if (granularity === "quarter") {
+      const quarter = Math.floor(month / 3);
+      bucketEnd = toISODate(endOfMonthUTC(year, quarter * 3 + 2));
+      label = `Q${quarter + 1} ${year}`;
+    }
+    const end = bucketEnd < endISO ? bucketEnd : endISO;
+    buckets.push({ label: granularity === "week" ? `${start} to ${end}` : label, start, end });
+    start = addDaysISO(end, 1);
+  }
+  return buckets;
+}
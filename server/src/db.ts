@@ -1,80 +1,47 @@
 import "dotenv/config";
-import pg from "pg";
-
-const { Pool } = pg;
-
-const databaseUrl = process.env.DATABASE_URL;
-if (!databaseUrl) {
-  throw new Error("DATABASE_URL is required for Postgres connection.");
+import { getMigrationStatus, migrate } from "./migrations.js";
+import { createPostgresDriver } from "./storage/postgres.js";
+import { createSqliteDriver } from "./storage/sqlite.js";
+import type { SqlExecutor, StorageDriver } from "./storage/types.js";
+
+function createDriver(): StorageDriver {
+  const client = process.env.DATABASE_CLIENT ?? (process.env.DATABASE_URL ? "postgres" : "sqlite");
+  if (client === "sqlite") {
+    return createSqliteDriver(process.env.SQLITE_PATH || "data/leetbit.sqlite");
+  }
+  if (client !== "postgres") {
+    throw new Error(`Unknown DATABASE_CLIENT "${client}". Use "postgres" or "sqlite".`);
+  }
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is required for Postgres connection.");
+  }
+  return createPostgresDriver(databaseUrl);
 }
 
-const pool = new Pool({
-  connectionString: databaseUrl,
-  ssl: { rejectUnauthorized: false }
-});
+const driver = createDriver();
 
-function toPgSql(sql: string) {
-  let index = 0;
-  return sql.replace(/\?/g, () => `$${++index}`);
-}
+/** The shared connection; routes reach it through the repositories in ./repositories. */
+export const database: SqlExecutor = driver;
 
-export async function run(sql: string, params: unknown[] = []) {
-  const result = await pool.query(toPgSql(sql), params);
-  const firstRow = result.rows[0] as { id?: number } | undefined;
-  return {
-    lastID: Number(firstRow?.id ?? 0),
-    changes: result.rowCount ?? 0
-  };
+export function transaction<T>(work: (tx: SqlExecutor) => Promise<T>) {
+  return driver.transaction(work);
 }
 
-export async function all<T>(sql: string, params: unknown[] = []) {
-  const result = await pool.query(toPgSql(sql), params);
-  return result.rows as T[];
+/** Whether `error` is a unique-index violation from either driver, e.g. a concurrent insert winning a race. */
+export function isUniqueViolation(error: unknown) {
+  const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+  return code === "23505" || (code === "SQLITE_CONSTRAINT" && String(message).includes("UNIQUE"));
 }
 
-export async function get<T>(sql: string, params: unknown[] = []) {
-  const result = await pool.query(toPgSql(sql), params);
-  return (result.rows[0] as T | undefined) ?? undefined;
+export function initDb() {
+  return migrate(driver);
 }
 
-export async function initDb() {
-  await run(`
-    CREATE TABLE IF NOT EXISTS users (
-      id SERIAL PRIMARY KEY,
-      username TEXT NOT NULL UNIQUE,
-      password_hash TEXT NOT NULL,
-      created_at TEXT NOT NULL DEFAULT (CURRENT_DATE::text)
-    )
-  `);
-
-  await run(`
-    CREATE TABLE IF NOT EXISTS habits (
-      id SERIAL PRIMARY KEY,
-      name TEXT NOT NULL UNIQUE,
-      user_id INTEGER,
-      created_at TEXT NOT NULL DEFAULT (CURRENT_DATE::text),
-      deleted_on TEXT,
-      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
-    )
-  `);
-
-  await run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS deleted_on TEXT");
-  await run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS user_id INTEGER");
-  await run("ALTER TABLE habits DROP CONSTRAINT IF EXISTS habits_name_key");
-  await run(
-    "CREATE UNIQUE INDEX IF NOT EXISTS habits_user_name_unique ON habits (user_id, lower(name))"
-  );
-  await run("CREATE INDEX IF NOT EXISTS habits_user_idx ON habits (user_id)");
+export function listPendingMigrations() {
+  return migrate(driver, { dryRun: true });
+}
 
-  await run(`
-    CREATE TABLE IF NOT EXISTS checkins (
-      id SERIAL PRIMARY KEY,
-      habit_id INTEGER NOT NULL,
-      date TEXT NOT NULL,
-      completed INTEGER NOT NULL DEFAULT 0,
-      UNIQUE(habit_id, date),
-      FOREIGN KEY(habit_id) REFERENCES habits(id) ON DELETE CASCADE
-    )
-  `);
-  await run("CREATE INDEX IF NOT EXISTS checkins_habit_date_idx ON checkins (habit_id, date)");
+export function migrationStatus() {
+  return getMigrationStatus(driver);
 }
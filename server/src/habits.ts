@@ -0,0 +1,332 @@
+import { addDaysISO, daysBetweenISO, fromISODate } from "./dates.js";
+
+export const MAX_CHECKIN_NOTE_LENGTH = 280;
+export const MAX_JOURNAL_LENGTH = 5000;
+
+export type HabitSchedule =
+  | { type: "daily" }
+  | { type: "weekdays"; weekdays: number[] }
+  | { type: "weekly"; perWeek: number }
+  | { type: "interval"; everyDays: number };
+
+export interface HabitRow {
+  id: number;
+  name: string;
+  user_id?: number | null;
+  created_at: string;
+  deleted_on?: string | null;
+  schedule_type?: string | null;
+  schedule_weekdays?: string | null;
+  schedule_per_week?: number | null;
+  schedule_every_days?: number | null;
+  unit?: string | null;
+  daily_target?: number | null;
+  polarity?: string | null;
+  inactive_ranges?: string | null;
+  category?: string | null;
+  color?: string | null;
+  /** Excused ranges that apply to this habit (its own plus account-wide ones), attached after loading. */
+  excused?: ExcusedRange[];
+}
+
+export interface ExcusedRange {
+  id: number;
+  user_id?: number;
+  habit_id: number | null;
+  start_date: string;
+  end_date: string;
+  reason?: string | null;
+}
+
+export type HabitPolarity = "build" | "quit";
+
+/**
+ * How a single habit day counts toward streaks: "skip" days (not scheduled, or a
+ * weekly quota that is already met or still reachable) neither extend nor break a streak.
+ */
+export type DayStatus = "done" | "missed" | "skip";
+
+export const HABIT_COLUMNS =
+  "id, name, user_id, created_at, deleted_on, schedule_type, schedule_weekdays, schedule_per_week, schedule_every_days, unit, daily_target, polarity, inactive_ranges, category, color";
+
+export function getHabitSchedule(habit: HabitRow): HabitSchedule {
+  switch (habit.schedule_type) {
+    case "weekdays":
+      return {
+        type: "weekdays",
+        weekdays: String(habit.schedule_weekdays ?? "")
+          .split(",")
+          .filter(Boolean)
+          .map(Number)
+      };
+    case "weekly":
+      return { type: "weekly", perWeek: Number(habit.schedule_per_week ?? 7) };
+    case "interval":
+      return { type: "interval", everyDays: Number(habit.schedule_every_days ?? 1) };
+    default:
+      return { type: "daily" };
+  }
+}
+
+export function parseScheduleInput(value: unknown): { schedule: HabitSchedule } | { error: string } {
+  if (value === undefined || value === null) {
+    return { schedule: { type: "daily" } };
+  }
+  const input = value as { type?: unknown; weekdays?: unknown; perWeek?: unknown; everyDays?: unknown };
+  switch (input.type) {
+    case "daily":
+      return { schedule: { type: "daily" } };
+    case "weekdays": {
+      const weekdays = Array.isArray(input.weekdays) ? input.weekdays.map(Number) : [];
+      if (weekdays.length === 0 || weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+        return { error: "schedule.weekdays must list weekdays 0-6 (0 = Sunday)." };
+      }
+      return { schedule: { type: "weekdays", weekdays: [...new Set(weekdays)].sort((a, b) => a - b) } };
+    }
+    case "weekly": {
+      const perWeek = Number(input.perWeek);
+      if (!Number.isInteger(perWeek) || perWeek < 1 || perWeek > 7) {
+        return { error: "schedule.perWeek must be between 1 and 7." };
+      }
+      return { schedule: { type: "weekly", perWeek } };
+    }
+    case "interval": {
+      const everyDays = Number(input.everyDays);
+      if (!Number.isInteger(everyDays) || everyDays < 1 || everyDays > 365) {
+        return { error: "schedule.everyDays must be between 1 and 365." };
+      }
+      return { schedule: { type: "interval", everyDays } };
+    }
+    default:
+      return { error: "schedule.type must be daily, weekdays, weekly or interval." };
+  }
+}
+
+/** Column values for schedule_type, schedule_weekdays, schedule_per_week, schedule_every_days. */
+export function scheduleColumnValues(schedule: HabitSchedule) {
+  return [
+    schedule.type,
+    schedule.type === "weekdays" ? schedule.weekdays.join(",") : null,
+    schedule.type === "weekly" ? schedule.perWeek : null,
+    schedule.type === "interval" ? schedule.everyDays : null
+  ];
+}
+
+export function parseTargetInput(body: {
+  unit?: unknown;
+  dailyTarget?: unknown;
+}): { unit: string | null; dailyTarget: number | null } | { error: string } {
+  if (body.dailyTarget === undefined || body.dailyTarget === null || body.dailyTarget === "") {
+    return { unit: null, dailyTarget: null };
+  }
+  const dailyTarget = Number(body.dailyTarget);
+  if (!Number.isFinite(dailyTarget) || dailyTarget <= 0) {
+    return { error: "dailyTarget must be a positive number." };
+  }
+  const unit = String(body.unit ?? "").trim();
+  if (unit.length > 24) {
+    return { error: "unit must be at most 24 characters." };
+  }
+  return { unit: unit || null, dailyTarget };
+}
+
+export function parseCategoryInput(value: unknown): { category: string | null } | { error: string } {
+  if (value === undefined || value === null) return { category: null };
+  const category = String(value).trim();
+  if (category.length > 40) return { error: "category must be at most 40 characters." };
+  return { category: category || null };
+}
+
+export function parseColorInput(value: unknown): { color: string | null } | { error: string } {
+  if (value === undefined || value === null || value === "") return { color: null };
+  if (typeof value !== "string" || !/^#[0-9a-fA-F]{6}$/.test(value)) {
+    return { error: "color must be a hex color like #22c55e." };
+  }
+  return { color: value.toLowerCase() };
+}
+
+/** Keeps the habits in `category` (case-insensitive); a null category keeps everything. */
+export function filterByCategory<T extends HabitRow>(habits: T[], category: string | null) {
+  if (!category) return habits;
+  const wanted = category.toLowerCase();
+  return habits.filter((habit) => (habit.category ?? "").toLowerCase() === wanted);
+}
+
+export function getHabitPolarity(habit: HabitRow): HabitPolarity {
+  return habit.polarity === "quit" ? "quit" : "build";
+}
+
+export function parsePolarityInput(value: unknown): { polarity: HabitPolarity } | { error: string } {
+  if (value === undefined || value === null || value === "build") {
+    return { polarity: "build" };
+  }
+  if (value === "quit") {
+    return { polarity: "quit" };
+  }
+  return { error: "polarity must be build or quit." };
+}
+
+/**
+ * Quit habits count every day as clean unless a slip (completed = 0) was logged;
+ * build habits need an explicit completed checkin.
+ */
+export function isHabitDoneOnDate(habit: HabitRow, completions: Map<string, boolean>, dateISO: string) {
+  if (getHabitPolarity(habit) === "quit") {
+    return completions.get(dateISO) !== false;
+  }
+  return completions.get(dateISO) === true;
+}
+
+/** Habits with a daily target are logged as numbers; a day completes once the value reaches the target. */
+export function isQuantitativeHabit(habit: HabitRow) {
+  return habit.daily_target !== null && habit.daily_target !== undefined;
+}
+
+/**
+ * What a checkin stores. Quantitative habits keep the logged amount and ticking the box logs the
+ * full target; on other habits a logged value completes the day when it is positive.
+ */
+export function resolveCheckin(habit: HabitRow, completed: boolean, value: number | null) {
+  if (isQuantitativeHabit(habit)) {
+    const target = Number(habit.daily_target);
+    const storedValue = value ?? (completed ? target : 0);
+    return { completed: storedValue >= target, value: storedValue };
+  }
+  if (value !== null) return { completed: value > 0, value };
+  return { completed, value: null };
+}
+
+/** Inactive ranges are stored as comma-separated ISO intervals, e.g. "2026-03-01/2026-03-20". */
+export function getInactiveRanges(habit: HabitRow) {
+  return String(habit.inactive_ranges ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map((range) => {
+      const [start, end] = range.split("/");
+      return { start, end };
+    });
+}
+
+export function withInactiveRange(habit: HabitRow, start: string, end: string) {
+  return [...getInactiveRanges(habit), { start, end }].map((range) => `${range.start}/${range.end}`).join(",");
+}
+
+export function isHabitPausedOnDate(habit: HabitRow, dateISO: string) {
+  return getInactiveRanges(habit).some((range) => range.start <= dateISO && dateISO <= range.end);
+}
+
+export function attachExcusedRanges<T extends HabitRow>(habits: T[], ranges: ExcusedRange[]) {
+  for (const habit of habits) {
+    habit.excused = ranges.filter((range) => range.habit_id === null || range.habit_id === habit.id);
+  }
+  return habits;
+}
+
+export function isHabitExcusedOnDate(habit: HabitRow, dateISO: string) {
+  return (habit.excused ?? []).some((range) => range.start_date <= dateISO && dateISO <= range.end_date);
+}
+
+export function isHabitActiveOnDate(habit: HabitRow, dateISO: string) {
+  return (
+    habit.created_at <= dateISO &&
+    (!habit.deleted_on || habit.deleted_on > dateISO) &&
+    !isHabitPausedOnDate(habit, dateISO)
+  );
+}
+
+/** Weekly-quota habits can be done on any active day, so every active day is due for them. */
+export function isHabitDueOnDate(habit: HabitRow, dateISO: string) {
+  if (!isHabitActiveOnDate(habit, dateISO)) return false;
+  const schedule = getHabitSchedule(habit);
+  switch (schedule.type) {
+    case "weekdays":
+      return schedule.weekdays.includes(fromISODate(dateISO).getUTCDay());
+    case "interval":
+      return daysBetweenISO(habit.created_at, dateISO) % schedule.everyDays === 0;
+    default:
+      return true;
+  }
+}
+
+export function groupCompletionsByHabit(rows: Array<{ habit_id: number; date: string; completed: number }>) {
+  const grouped = new Map<number, Map<string, boolean>>();
+  for (const row of rows) {
+    let habitMap = grouped.get(row.habit_id);
+    if (!habitMap) {
+      habitMap = new Map();
+      grouped.set(row.habit_id, habitMap);
+    }
+    habitMap.set(row.date, row.completed === 1);
+  }
+  return grouped;
+}
+
+export const STREAK_FREEZE_EVERY_DAYS = 7;
+
+/** A run of consecutive done days; frozen and skipped days inside it do not add to its length. */
+export interface StreakRun {
+  start: string;
+  end: string;
+  length: number;
+}
+
+export interface StreakResult {
+  currentStreak: number;
+  longestStreak: number;
+  /** The day the longest streak first reached its length. */
+  longestSetOn: string | null;
+  freezesRemaining: number;
+  frozenDays: string[];
+  /** Every run oldest first; when currentStreak > 0 the last one is still going. */
+  runs: StreakRun[];
+}
+
+/**
+ * Walks days oldest first. Every STREAK_FREEZE_EVERY_DAYS consecutive done days earn a freeze,
+ * which is spent automatically on the next missed day so the streak survives it.
+ * Today is never frozen since it can still be completed; "none" always ends the streak.
+ * frozenDays lists the days saved within the current streak.
+ */
+export function computeStreak(
+  startISO: string,
+  todayISO: string,
+  statusOn: (dateISO: string) => DayStatus | "none"
+): StreakResult {
+  let currentStreak = 0;
+  let longestStreak = 0;
+  let longestSetOn: string | null = null;
+  let freezesRemaining = 0;
+  let consecutiveDone = 0;
+  let frozenDays: string[] = [];
+  const runs: StreakRun[] = [];
+  let runStart = startISO;
+  let runEnd = startISO;
+
+  for (let iso = startISO; iso <= todayISO; iso = addDaysISO(iso, 1)) {
+    const status = statusOn(iso);
+    if (status === "done") {
+      if (currentStreak === 0) runStart = iso;
+      runEnd = iso;
+      currentStreak += 1;
+      consecutiveDone += 1;
+      if (consecutiveDone % STREAK_FREEZE_EVERY_DAYS === 0) freezesRemaining += 1;
+      if (currentStreak > longestStreak) {
+        longestStreak = currentStreak;
+        longestSetOn = iso;
+      }
+    } else if (status === "missed" && iso < todayISO && freezesRemaining > 0) {
+      freezesRemaining -= 1;
+      consecutiveDone = 0;
+      frozenDays.push(iso);
+    } else if (status !== "skip") {
+      if (currentStreak > 0) runs.push({ start: runStart, end: runEnd, length: currentStreak });
+      currentStreak = 0;
+      consecutiveDone = 0;
+      frozenDays = [];
+    }
+  }
+
+  if (currentStreak > 0) runs.push({ start: runStart, end: runEnd, length: currentStreak });
+
+  return { currentStreak, longestStreak, longestSetOn, freezesRemaining, frozenDays, runs };
+}
@@ -0,0 +1,182 @@
+import { addDaysISO, dayBeforeISO, fromISODate, startOfISOWeek, toISODate } from "./dates.js";
+import {
+  getHabitPolarity,
+  getHabitSchedule,
+  getInactiveRanges,
+  type HabitRow,
+  type HabitSchedule,
+  isHabitActiveOnDate,
+  isHabitDoneOnDate,
+  isHabitDueOnDate
+} from "./habits.js";
+import type { HabitCheckinRow } from "./repositories/index.js";
+
+/** Completed days further back than this are left out of the feed to keep it small. */
+export const FEED_HISTORY_DAYS = 366;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function icsDate(dateISO: string) {
+  return dateISO.replace(/-/g, "");
+}
+
+function icsTimestamp(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string) {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Content lines are folded at 75 octets, continuing with a leading space (RFC 5545 3.1). */
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > 75) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+function describeSchedule(schedule: HabitSchedule) {
+  switch (schedule.type) {
+    case "weekdays":
+      return schedule.weekdays.map((day) => WEEKDAY_NAMES[day]).join(", ");
+    case "weekly":
+      return `${schedule.perWeek} times a week`;
+    case "interval":
+      return `Every ${schedule.everyDays} days`;
+    default:
+      return "Every day";
+  }
+}
+
+/** Whether the schedule alone (ignoring pauses) puts an occurrence on `dateISO`. */
+function isScheduledOn(habit: HabitRow, dateISO: string) {
+  return isHabitDueOnDate({ ...habit, inactive_ranges: null }, dateISO);
+}
+
+/**
+ * One recurring all-day event per habit, bounded by its active window: it starts on created_at,
+ * stops the day before deleted_on and skips paused days with EXDATE. Weekly-quota habits recur as
+ * week-long events, skipped only when the whole week is paused.
+ */
+function habitEvent(habit: HabitRow, stamp: string) {
+  const schedule = getHabitSchedule(habit);
+  const lastDay = habit.deleted_on ? dayBeforeISO(habit.deleted_on) : null;
+  let start = habit.created_at;
+  let length = 1;
+  let rule = "FREQ=DAILY";
+  if (schedule.type === "weekdays") {
+    while (!schedule.weekdays.includes(fromISODate(start).getUTCDay())) start = addDaysISO(start, 1);
+    rule = `FREQ=WEEKLY;BYDAY=${schedule.weekdays.map((day) => WEEKDAY_CODES[day]).join(",")}`;
+  } else if (schedule.type === "weekly") {
+    start = toISODate(startOfISOWeek(fromISODate(habit.created_at)));
+    length = 7;
+    rule = "FREQ=WEEKLY";
+  } else if (schedule.type === "interval") {
+    rule = `FREQ=DAILY;INTERVAL=${schedule.everyDays}`;
+  }
+  if (lastDay && lastDay < start) return [];
+  if (lastDay) rule += `;UNTIL=${icsDate(lastDay)}`;
+
+  const excluded = new Set<string>();
+  for (const range of getInactiveRanges(habit)) {
+    for (let date = range.start; date <= range.end && (!lastDay || date <= lastDay); date = addDaysISO(date, 1)) {
+      if (schedule.type === "weekly") {
+        const weekStart = toISODate(startOfISOWeek(fromISODate(date)));
+        const week = Array.from({ length: 7 }, (_day, index) => addDaysISO(weekStart, index));
+        if (weekStart >= start && week.every((day) => !isHabitActiveOnDate(habit, day))) excluded.add(weekStart);
+      } else if (isScheduledOn(habit, date)) {
+        excluded.add(date);
+      }
+    }
+  }
+
+  const details = [describeSchedule(schedule)];
+  if (habit.daily_target) details.push(`Target: ${habit.daily_target}${habit.unit ? ` ${habit.unit}` : ""}`);
+  if (getHabitPolarity(habit) === "quit") details.push("Quit habit: every day without a slip counts.");
+  const summary = schedule.type === "weekly" ? `${habit.name} (${schedule.perWeek}× this week)` : habit.name;
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:habit-${habit.id}@leetbit`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(start)}`,
+    `DTEND;VALUE=DATE:${icsDate(addDaysISO(start, length))}`,
+    `RRULE:${rule}`,
+    ...(excluded.size > 0 ? [`EXDATE;VALUE=DATE:${[...excluded].sort().map(icsDate).join(",")}`] : []),
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(details.join("\n"))}`,
+    ...(habit.category ? [`CATEGORIES:${escapeText(habit.category)}`] : []),
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT"
+  ];
+}
+
+function completionEvent(habit: HabitRow, dateISO: string, checkin: HabitCheckinRow | undefined, stamp: string) {
+  const unit = habit.unit ? ` ${habit.unit}` : "";
+  const value = checkin?.value ?? null;
+  const amount = value !== null && habit.daily_target ? ` (${value}${unit})` : "";
+  return [
+    "BEGIN:VEVENT",
+    `UID:checkin-${habit.id}-${dateISO}@leetbit`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(dateISO)}`,
+    `DTEND;VALUE=DATE:${icsDate(addDaysISO(dateISO, 1))}`,
+    `SUMMARY:${escapeText(`✓ ${habit.name}${amount}`)}`,
+    ...(checkin?.note ? [`DESCRIPTION:${escapeText(checkin.note)}`] : []),
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT"
+  ];
+}
+
+/**
+ * The user's habits as an iCalendar feed: a recurring event per habit plus a "✓" event on each
+ * done day of the last FEED_HISTORY_DAYS (only days the habit was active). Done is decided as on
+ * the heatmap, so quit habits count every active day without a slip.
+ */
+export function buildCalendarFeed(
+  habits: HabitRow[],
+  checkins: HabitCheckinRow[],
+  todayISO: string,
+  now = new Date()
+) {
+  const stamp = icsTimestamp(now);
+  const checkinsByHabit = new Map<number, Map<string, HabitCheckinRow>>();
+  for (const checkin of checkins) {
+    const byDate = checkinsByHabit.get(checkin.habit_id) ?? new Map<string, HabitCheckinRow>();
+    byDate.set(checkin.date, checkin);
+    checkinsByHabit.set(checkin.habit_id, byDate);
+  }
+  const since = addDaysISO(todayISO, -FEED_HISTORY_DAYS);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Leetbit//Habits//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Leetbit habits",
+    ...habits.flatMap((habit) => habitEvent(habit, stamp))
+  ];
+  for (const habit of habits) {
+    const byDate = checkinsByHabit.get(habit.id) ?? new Map<string, HabitCheckinRow>();
+    const completions = new Map([...byDate].map(([date, checkin]) => [date, checkin.completed === 1]));
+    for (let date = habit.created_at > since ? habit.created_at : since; date <= todayISO; date = addDaysISO(date, 1)) {
+      if (!isHabitActiveOnDate(habit, date) || !isHabitDoneOnDate(habit, completions, date)) continue;
+      lines.push(...completionEvent(habit, date, byDate.get(date), stamp));
+    }
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,307 @@
+import { type Backup, BACKUP_VERSION, type BackupCheckin, type BackupHabit } from "./backup.js";
+import { csvRecords, parseCsv } from "./csv.js";
+import { isISODate } from "./dates.js";
+import { MAX_CHECKIN_NOTE_LENGTH } from "./habits.js";
+
+export type ExternalFormat = "loop" | "generic" | "markdown";
+export type DateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY";
+
+const EXTERNAL_FORMATS: ExternalFormat[] = ["loop", "generic", "markdown"];
+const DATE_FORMATS: DateFormat[] = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY"];
+const MAX_WARNINGS = 20;
+const SAMPLE_ROWS = 5;
+
+/** Which CSV column holds each field of a generic import; value and note are optional. */
+export interface ColumnMapping {
+  date: string;
+  habit: string;
+  done: string | null;
+  value: string | null;
+  note: string | null;
+  dateFormat: DateFormat;
+}
+
+export interface ExternalRow {
+  habit: string;
+  date: string;
+  completed: boolean;
+  value: number | null;
+  note: string | null;
+}
+
+export interface ExternalHistory {
+  rows: ExternalRow[];
+  /** Rows that could not be read; the first few are explained in `warnings`. */
+  skipped: number;
+  warnings: string[];
+}
+
+const COLUMN_NAMES: Record<Exclude<keyof ColumnMapping, "dateFormat">, string[]> = {
+  date: ["date", "day"],
+  habit: ["habit", "habit name", "name", "task"],
+  done: ["done", "completed", "complete", "status", "checked"],
+  value: ["value", "amount", "count", "quantity"],
+  note: ["note", "notes", "comment"]
+};
+const DONE_VALUES = new Set(["1", "true", "yes", "y", "x", "done", "completed", "✓", "✔"]);
+const NOT_DONE_VALUES = new Set(["", "0", "false", "no", "n", "missed", "-"]);
+/** Loop Habit Tracker marks: 2 / YES_MANUAL is a checked day; automatic and unknown marks are not checkins. */
+const LOOP_DONE_VALUES = new Set(["2", "YES_MANUAL"]);
+const MARKDOWN_DATE_LINE = /^\s*(?:#{1,6}\s+.*|\**\d{4}-\d{2}-\d{2}\**:?)\s*$/;
+const MARKDOWN_ITEM = /^\s*[-*+]\s+\[([ xX])\]\s+(.+?)\s*$/;
+
+export function parseExternalSource(body: unknown): { format: ExternalFormat; text: string } | { error: string } {
+  const input = (body ?? {}) as { format?: unknown; data?: unknown };
+  if (!EXTERNAL_FORMATS.includes(input.format as ExternalFormat)) {
+    return { error: "format must be loop, generic or markdown." };
+  }
+  if (typeof input.data !== "string" || !input.data.trim()) return { error: "data must be the file's text." };
+  return { format: input.format as ExternalFormat, text: input.data };
+}
+
+export function parseMappingInput(value: unknown, columns: string[]): { mapping: ColumnMapping } | { error: string } {
+  const input = (value ?? {}) as Partial<Record<keyof ColumnMapping, unknown>>;
+  const known = new Set(columns);
+  const column = (field: keyof typeof COLUMN_NAMES) => {
+    const name = input[field] === undefined || input[field] === null ? "" : String(input[field]).trim().toLowerCase();
+    return name || null;
+  };
+  const mapping: ColumnMapping = {
+    date: column("date") ?? "",
+    habit: column("habit") ?? "",
+    done: column("done"),
+    value: column("value"),
+    note: column("note"),
+    dateFormat: (input.dateFormat as DateFormat | undefined) ?? "YYYY-MM-DD"
+  };
+  if (!mapping.date || !mapping.habit) return { error: "mapping.date and mapping.habit are required." };
+  if (!mapping.done && !mapping.value) return { error: "Map either a done column or a value column." };
+  const unknown = [mapping.date, mapping.habit, mapping.done, mapping.value, mapping.note].find(
+    (name) => name !== null && !known.has(name)
+  );
+  if (unknown) return { error: `The file has no "${unknown}" column.` };
+  if (!DATE_FORMATS.includes(mapping.dateFormat)) {
+    return { error: `mapping.dateFormat must be ${DATE_FORMATS.join(", ")}.` };
+  }
+  return { mapping };
+}
+
+/**
+ * Guesses the mapping from the header names, and the date format that reads most of the first dates;
+ * null when no date or habit column stands out.
+ */
+function suggestMapping(text: string): ColumnMapping | null {
+  const columns = csvColumns(text);
+  const find = (field: keyof typeof COLUMN_NAMES) =>
+    COLUMN_NAMES[field].find((name) => columns.includes(name)) ?? null;
+  const date = find("date");
+  const habit = find("habit");
+  const done = find("done");
+  const value = find("value");
+  if (!date || !habit || (!done && !value)) return null;
+  const dates = csvRecords(parseCsv(text))
+    .slice(0, 50)
+    .map((record) => record[date])
+    .filter(Boolean);
+  const readable = (format: DateFormat) => dates.filter((value) => toISO(value, format)).length;
+  const dateFormat = DATE_FORMATS.reduce((best, format) => (readable(format) > readable(best) ? format : best));
+  return { date, habit, done, value, note: find("note"), dateFormat };
+}
+
+function toISO(text: string, format: DateFormat) {
+  const parts = text.trim().split(/[-/.]/);
+  if (parts.length !== 3) return null;
+  const order = format === "DD/MM/YYYY" ? [2, 1, 0] : format === "MM/DD/YYYY" ? [2, 0, 1] : [0, 1, 2];
+  const [year, month, day] = order.map((index) => parts[index]);
+  const iso = `${year.padStart(4, "0")}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  return isISODate(iso) ? iso : null;
+}
+
+function historyCollector(todayISO: string) {
+  const history: ExternalHistory = { rows: [], skipped: 0, warnings: [] };
+  const indexByKey = new Map<string, number>();
+
+  function skip(message: string) {
+    history.skipped += 1;
+    if (history.warnings.length < MAX_WARNINGS) history.warnings.push(message);
+  }
+
+  /** Later rows for the same habit and day replace earlier ones. */
+  function add(row: ExternalRow, where: string) {
+    if (row.date > todayISO) {
+      skip(`${where}: ${row.date} is in the future.`);
+      return;
+    }
+    if (row.note && row.note.length > MAX_CHECKIN_NOTE_LENGTH) {
+      skip(`${where}: the note is longer than ${MAX_CHECKIN_NOTE_LENGTH} characters.`);
+      return;
+    }
+    const key = `${row.habit.toLowerCase()}:${row.date}`;
+    const index = indexByKey.get(key);
+    if (index === undefined) {
+      indexByKey.set(key, history.rows.length);
+      history.rows.push(row);
+    } else {
+      history.rows[index] = row;
+    }
+  }
+
+  return { history, skip, add };
+}
+
+/** Loop's Checkmarks.csv: a Date column, then one column per habit. */
+function readLoopCsv(text: string, todayISO: string): { history: ExternalHistory } | { error: string } {
+  const [header, ...body] = parseCsv(text);
+  if (!header || header.length < 2 || header[0].trim().toLowerCase() !== "date") {
+    return { error: "Expected Loop's Checkmarks.csv, whose first column is Date." };
+  }
+  const collector = historyCollector(todayISO);
+  body.forEach((cells, index) => {
+    const date = toISO(cells[0] ?? "", "YYYY-MM-DD");
+    if (!date) {
+      collector.skip(`Row ${index + 2}: "${cells[0]}" is not a date.`);
+      return;
+    }
+    header.slice(1).forEach((name, column) => {
+      const mark = (cells[column + 1] ?? "").trim().toUpperCase();
+      if (name.trim() && LOOP_DONE_VALUES.has(mark)) {
+        collector.add({ habit: name.trim(), date, completed: true, value: null, note: null }, `Row ${index + 2}`);
+      }
+    });
+  });
+  return { history: collector.history };
+}
+
+function readGenericCsv(text: string, mapping: ColumnMapping, todayISO: string): { history: ExternalHistory } {
+  const collector = historyCollector(todayISO);
+  csvRecords(parseCsv(text)).forEach((record, index) => {
+    const where = `Row ${index + 2}`;
+    const date = toISO(record[mapping.date] ?? "", mapping.dateFormat);
+    const habit = record[mapping.habit] ?? "";
+    if (!date) return collector.skip(`${where}: "${record[mapping.date] ?? ""}" is not a ${mapping.dateFormat} date.`);
+    if (!habit) return collector.skip(`${where}: the habit is empty.`);
+
+    const rawValue = mapping.value ? (record[mapping.value] ?? "") : "";
+    const value = rawValue === "" ? null : Number(rawValue);
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      return collector.skip(`${where}: "${rawValue}" is not a non-negative number.`);
+    }
+    let completed = value !== null && value > 0;
+    if (mapping.done) {
+      const mark = (record[mapping.done] ?? "").toLowerCase();
+      if (!DONE_VALUES.has(mark) && !NOT_DONE_VALUES.has(mark)) {
+        return collector.skip(`${where}: cannot tell whether "${mark}" means done.`);
+      }
+      completed = DONE_VALUES.has(mark);
+    }
+    const note = mapping.note ? record[mapping.note] || null : null;
+    collector.add({ habit, date, completed, value, note }, where);
+  });
+  return { history: collector.history };
+}
+
+/**
+ * A journal of dated headings (or lines holding just a date) followed by task-list items:
+ * "- [x] Meditate" is done, "- [ ] Run" is not; items under other headings are skipped.
+ * Text after " — " or " -- " becomes the note.
+ */
+function readMarkdownChecklist(text: string, todayISO: string): { history: ExternalHistory } {
+  const collector = historyCollector(todayISO);
+  let date: string | null = null;
+  text.split(/\r?\n/).forEach((line, index) => {
+    const item = MARKDOWN_ITEM.exec(line);
+    if (!item) {
+      // Any heading starts a new section, so one without a real date stops filing items under the last one.
+      if (MARKDOWN_DATE_LINE.test(line)) {
+        const found = /\d{4}-\d{2}-\d{2}/.exec(line);
+        date = found ? toISO(found[0], "YYYY-MM-DD") : null;
+      }
+      return;
+    }
+    const where = `Line ${index + 1}`;
+    if (!date) return collector.skip(`${where}: checklist item not under a dated heading.`);
+    const [name, ...noteParts] = item[2].split(/\s+(?:—|--)\s+/);
+    const note = noteParts.join(" — ").trim();
+    collector.add({ habit: name.trim(), date, completed: item[1] !== " ", value: null, note: note || null }, where);
+  });
+  return { history: collector.history };
+}
+
+export function csvColumns(text: string) {
+  const [header = []] = parseCsv(text);
+  return header.map((name) => name.trim().toLowerCase());
+}
+
+/**
+ * The column-mapping step: the file's columns, a suggested mapping for generic CSVs and the
+ * habits and first rows that mapping reads. A generic CSV without an obvious mapping reads nothing.
+ */
+export function inspectExternal(format: ExternalFormat, text: string, todayISO: string) {
+  const columns = format === "markdown" ? [] : csvColumns(text);
+  const mapping = format === "generic" ? suggestMapping(text) : null;
+  const read = format === "generic" && !mapping ? null : readExternalHistory(format, text, mapping, todayISO);
+  if (read && "error" in read) return read;
+  const history = read?.history ?? { rows: [], skipped: 0, warnings: [] };
+  const habits = new Map(history.rows.map((row) => [row.habit.toLowerCase(), row.habit]));
+  return {
+    inspection: {
+      columns,
+      mapping,
+      habits: [...new Set(habits.values())],
+      rows: history.rows.length,
+      skipped: history.skipped,
+      warnings: history.warnings,
+      sample: history.rows.slice(0, SAMPLE_ROWS)
+    }
+  };
+}
+
+/** Runs the format's parser; generic CSVs need a column mapping. */
+export function readExternalHistory(
+  format: ExternalFormat,
+  text: string,
+  mapping: ColumnMapping | null,
+  todayISO: string
+): { history: ExternalHistory } | { error: string } {
+  if (format === "loop") return readLoopCsv(text, todayISO);
+  if (format === "markdown") return readMarkdownChecklist(text, todayISO);
+  if (!mapping) return { error: "Map the date, habit and done (or value) columns first." };
+  return readGenericCsv(text, mapping, todayISO);
+}
+
+/**
+ * Turns an imported history into a backup document for planImport: one daily build habit per
+ * name (case-insensitive), starting on its first imported day. Days that were not done and have
+ * no value or note are left out, as they are when nothing was checked in. A row's `completed` is
+ * only what the file claims: planImport grades it again against the matched habit, so "yes,10"
+ * on an existing habit with a target of 30 is stored as 10 of 30, not done.
+ */
+export function historyToBackup(history: ExternalHistory): Backup {
+  const habits = new Map<string, BackupHabit>();
+  const checkins: BackupCheckin[] = [];
+  for (const row of history.rows) {
+    const key = row.habit.toLowerCase();
+    let habit = habits.get(key);
+    if (!habit) {
+      habit = {
+        id: habits.size + 1,
+        name: row.habit,
+        createdAt: row.date,
+        deletedOn: null,
+        schedule: { type: "daily" },
+        polarity: "build",
+        unit: null,
+        dailyTarget: null,
+        category: null,
+        color: null,
+        inactiveRanges: []
+      };
+      habits.set(key, habit);
+    }
+    if (row.date < habit.createdAt) habit.createdAt = row.date;
+    if (row.completed || row.value !== null || row.note) {
+      checkins.push({ habitId: habit.id, date: row.date, completed: row.completed, value: row.value, note: row.note });
+    }
+  }
+  return { version: BACKUP_VERSION, exportedAt: "", habits: [...habits.values()], checkins, excused: [], journal: [] };
+}
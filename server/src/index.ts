@@ -2,191 +2,108 @@ import cors from "cors";
 import express from "express";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
-import { all, get, initDb, run } from "./db.js";
-
-interface HabitRow {
-  id: number;
-  name: string;
-  user_id?: number | null;
-  created_at: string;
-  deleted_on?: string | null;
-}
-
-interface CheckinRow {
-  date: string;
-  completed: number;
-}
-
-interface PeriodSummary {
-  completed: number;
-  total: number;
-  consistency: number;
-}
-
-interface HabitComparisonItem {
-  habitId: number;
-  name: string;
-  consistency: number;
-}
-
-interface HabitDateRow {
-  habit_id: number;
-  date: string;
-  completed: number;
-}
-
-interface UserRow {
+import { randomBytes } from "node:crypto";
+import { initDb, isUniqueViolation } from "./db.js";
+import {
+  addDaysISO,
+  dayBeforeISO,
+  daysBetweenISO,
+  isISODate,
+  splitRange,
+  isValidTimeZone,
+  todayInTimeZone
+} from "./dates.js";
+import {
+  attachExcusedRanges,
+  filterByCategory,
+  getHabitPolarity,
+  getHabitSchedule,
+  groupCompletionsByHabit,
+  type ExcusedRange,
+  type HabitRow,
+  isHabitActiveOnDate,
+  isHabitDoneOnDate,
+  isHabitDueOnDate,
+  isHabitExcusedOnDate,
+  MAX_CHECKIN_NOTE_LENGTH,
+  MAX_JOURNAL_LENGTH,
+  parseCategoryInput,
+  parseColorInput,
+  parsePolarityInput,
+  parseScheduleInput,
+  parseTargetInput,
+  resolveCheckin,
+  withInactiveRange
+} from "./habits.js";
+import { type CheckinRow, inTransaction, repositories, type UserRow } from "./repositories/index.js";
+import {
+  buildHabitLedger,
+  combinedStreak,
+  groupCheckinsByHabit,
+  habitStreak,
+  parseSummaryRangeInput,
+  streakHistory,
+  summarizeHabit,
+  summarizeHabits,
+  summarizePeriod
+} from "./summary.js";
+import { checkBatchEntries, parseBatchInput } from "./backfill.js";
+import { BADGE_MAX_DAYS, type BadgeDay, renderHeatmapBadge } from "./badge.js";
+import { applyImport, backupToCsv, buildBackup, loadAccountData, parseImportInput, planImport } from "./backup.js";
+import { buildCalendarFeed } from "./ics.js";
+import { computeInsights, parseInsightRangeInput } from "./insights.js";
+import {
+  type ColumnMapping,
+  csvColumns,
+  historyToBackup,
+  inspectExternal,
+  parseExternalSource,
+  parseMappingInput,
+  readExternalHistory
+} from "./importers.js";
+import { buildYearReview } from "./review.js";
+import { parseGoalInput } from "./trends.js";
+import { ensureRollups, refreshRollups } from "./rollups.js";
+
+const repos = repositories();
+
+// Heatmap ranges are walked day by day, so keep them to about ten years.
+const MAX_CHECKIN_RANGE_DAYS = 3660;
+
+interface AuthUser {
   id: number;
   username: string;
-  password_hash: string;
-  created_at: string;
-}
-
-type AuthedRequest = express.Request & { user?: { id: number; username: string } };
-
-function toISODate(date: Date) {
-  return date.toISOString().slice(0, 10);
-}
-
-function fromISODate(date: string) {
-  return new Date(`${date}T00:00:00.000Z`);
-}
-
-function addDaysUTC(date: Date, days: number) {
-  const next = new Date(date);
-  next.setUTCDate(next.getUTCDate() + days);
-  return next;
-}
-
-function startOfISOWeek(date: Date) {
-  const day = date.getUTCDay();
-  const diff = (day + 6) % 7;
-  return addDaysUTC(date, -diff);
-}
-
-function endOfISOWeek(date: Date) {
-  return addDaysUTC(startOfISOWeek(date), 6);
-}
-
-function endOfMonthUTC(year: number, monthZeroBased: number) {
-  return new Date(Date.UTC(year, monthZeroBased + 1, 0));
-}
-
-function monthLabel(year: number, monthZeroBased: number) {
-  return new Date(Date.UTC(year, monthZeroBased, 1)).toLocaleString("en-US", {
-    month: "short",
-    year: "numeric",
-    timeZone: "UTC"
-  });
-}
-
-function dayBeforeISO(dateISO: string) {
-  return toISODate(addDaysUTC(fromISODate(dateISO), -1));
-}
-
-function isHabitActiveOnDate(habit: HabitRow, dateISO: string) {
-  return habit.created_at <= dateISO && (!habit.deleted_on || habit.deleted_on > dateISO);
+  timeZone: string;
 }
 
-async function buildPeriodSummary(
-  habitId: number,
-  start: Date,
-  end: Date,
-  today: Date
-): Promise<PeriodSummary> {
-  const cappedEnd = end > today ? today : end;
-  if (cappedEnd < start) {
-    return { completed: 0, total: 0, consistency: 0 };
-  }
-
-  const rows = await all<CheckinRow>(
-    "SELECT date, completed FROM checkins WHERE habit_id = ? AND date BETWEEN ? AND ?",
-    [habitId, toISODate(start), toISODate(cappedEnd)]
-  );
-
-  const completedMap = new Map(rows.map((row) => [row.date, row.completed === 1]));
-  let completed = 0;
-  let total = 0;
-
-  for (let d = new Date(start); d <= cappedEnd; d = addDaysUTC(d, 1)) {
-    total += 1;
-    if (completedMap.get(toISODate(d))) {
-      completed += 1;
-    }
-  }
-
-  return {
-    completed,
-    total,
-    consistency: total === 0 ? 0 : Number(((completed / total) * 100).toFixed(1))
-  };
-}
+type AuthedRequest = express.Request & { user?: AuthUser };
 
-async function buildAllPeriodSummary(
-  habits: HabitRow[],
-  checkinsMap: Map<string, number>,
-  start: Date,
-  end: Date,
-  today: Date
-): Promise<PeriodSummary> {
-  const cappedEnd = end > today ? today : end;
-  if (cappedEnd < start) {
-    return { completed: 0, total: 0, consistency: 0 };
-  }
-  let completed = 0;
-  let total = 0;
-  for (let d = new Date(start); d <= cappedEnd; d = addDaysUTC(d, 1)) {
-    const iso = toISODate(d);
-    const activeHabits = habits.filter((habit) => isHabitActiveOnDate(habit, iso));
-    if (activeHabits.length === 0) continue;
-    for (const habit of activeHabits) {
-      total += 1;
-      if ((checkinsMap.get(`${habit.id}-${iso}`) ?? 0) === 1) {
-        completed += 1;
-      }
-    }
-  }
+function toHabitResponse(habit: HabitRow) {
   return {
-    completed,
-    total,
-    consistency: total === 0 ? 0 : Number(((completed / total) * 100).toFixed(1))
+    id: habit.id,
+    name: habit.name,
+    createdAt: habit.created_at,
+    schedule: getHabitSchedule(habit),
+    polarity: getHabitPolarity(habit),
+    unit: habit.unit ?? null,
+    dailyTarget: habit.daily_target ?? null,
+    category: habit.category ?? null,
+    color: habit.color ?? null
   };
 }
 
-async function getHabitCompletionsMap(habitId: number) {
-  const rows = await all<CheckinRow>(
-    "SELECT date, completed FROM checkins WHERE habit_id = ?",
-    [habitId]
-  );
-  return new Map(rows.map((row) => [row.date, row.completed === 1]));
+async function withExcusedRanges<T extends HabitRow>(userId: number, habits: T[]) {
+  return attachExcusedRanges(habits, await repos.excused.listForUser(userId));
 }
 
-function computeStreaksFromMap(
-  completionsMap: Map<string, boolean>,
-  startDate: Date,
-  today: Date
-) {
-  let currentStreak = 0;
-  for (let d = new Date(today); d >= startDate; d = addDaysUTC(d, -1)) {
-    if (completionsMap.get(toISODate(d))) {
-      currentStreak += 1;
-    } else {
-      break;
-    }
-  }
-
-  let longestStreak = 0;
-  let running = 0;
-  for (let d = new Date(startDate); d <= today; d = addDaysUTC(d, 1)) {
-    if (completionsMap.get(toISODate(d))) {
-      running += 1;
-      if (running > longestStreak) longestStreak = running;
-    } else {
-      running = 0;
-    }
-  }
-
-  return { currentStreak, longestStreak };
+function toExcusedRangeResponse(range: ExcusedRange) {
+  return {
+    id: range.id,
+    habitId: range.habit_id,
+    start: range.start_date,
+    end: range.end_date,
+    reason: range.reason ?? null
+  };
 }
 
 const app = express();
@@ -196,6 +113,8 @@ const JWT_SECRET = process.env.JWT_SECRET || "leetbit-dev-secret";
 app.use(cors({
   origin: process.env.FRONTEND_URL
 }));
+// Imports carry a whole account in one request; everything else keeps the default limit.
+app.use("/api/import", express.json({ limit: "10mb" }));
 app.use(express.json());
 
 type AuthTokenPayload = jwt.JwtPayload & {
@@ -218,10 +137,31 @@ function createAuthToken(user: { id: number; username: string }) {
   return jwt.sign({ sub: user.id, username: user.username }, JWT_SECRET, { expiresIn: "7d" });
 }
 
+/** Unguessable secret for URLs that work without a login, such as the calendar feed or heatmap badge. */
+function createAccessToken() {
+  return randomBytes(24).toString("base64url");
+}
+
 function getAuthUser(req: express.Request) {
   return (req as AuthedRequest).user;
 }
 
+function toAuthUserResponse(user: UserRow) {
+  return { id: user.id, username: user.username, timeZone: user.time_zone };
+}
+
+function currentYearFor(user: AuthUser) {
+  return Number(todayInTimeZone(user.timeZone).slice(0, 4));
+}
+
+function parseTimeZoneInput(value: unknown): { timeZone: string | null } | { error: string } {
+  if (value === undefined || value === null || value === "") return { timeZone: null };
+  if (typeof value !== "string" || !isValidTimeZone(value)) {
+    return { error: "timeZone must be a valid IANA time zone, e.g. Asia/Kolkata." };
+  }
+  return { timeZone: value };
+}
+
 app.post("/api/auth/register", async (req, res) => {
   const username = String(req.body?.username ?? "").trim();
   const password = String(req.body?.password ?? "").trim();
@@ -234,25 +174,33 @@ app.post("/api/auth/register", async (req, res) => {
     return;
   }
 
-  const existing = await get<UserRow>("SELECT id FROM users WHERE lower(username) = lower(?)", [username]);
-  if (existing) {
-    res.status(409).json({ message: "Username already exists." });
+  const timeZoneInput = parseTimeZoneInput(req.body?.timeZone);
+  if ("error" in timeZoneInput) {
+    res.status(400).json({ message: timeZoneInput.error });
     return;
   }
 
   const hash = await bcrypt.hash(password, 10);
-  const result = await run(
-    "INSERT INTO users (username, password_hash) VALUES (?, ?) RETURNING id",
-    [username, hash]
-  );
-  const user = await get<UserRow>("SELECT id, username FROM users WHERE id = ?", [result.lastID]);
+  const user = await inTransaction(async (tx) => {
+    if (await tx.users.findByUsername(username)) return null;
+    const userId = await tx.users.create({
+      username,
+      passwordHash: hash,
+      timeZone: timeZoneInput.timeZone ?? "UTC"
+    });
+    return tx.users.findById(userId);
+  });
+  if (user === null) {
+    res.status(409).json({ message: "Username already exists." });
+    return;
+  }
   if (!user) {
     res.status(500).json({ message: "Unable to create user." });
     return;
   }
 
   const token = createAuthToken({ id: user.id, username: user.username });
-  res.status(201).json({ token, user: { id: user.id, username: user.username } });
+  res.status(201).json({ token, user: toAuthUserResponse(user) });
 });
 
 app.post("/api/auth/login", async (req, res) => {
@@ -263,7 +211,7 @@ app.post("/api/auth/login", async (req, res) => {
     return;
   }
 
-  const user = await get<UserRow>("SELECT id, username, password_hash FROM users WHERE lower(username) = lower(?)", [username]);
+  const user = await repos.users.findByUsername(username);
   if (!user) {
     res.status(401).json({ message: "Invalid credentials." });
     return;
@@ -275,15 +223,27 @@ app.post("/api/auth/login", async (req, res) => {
     return;
   }
 
+  // Logging in from a new device keeps the stored zone in sync with where the user is.
+  const timeZoneInput = parseTimeZoneInput(req.body?.timeZone);
+  if (!("error" in timeZoneInput) && timeZoneInput.timeZone && timeZoneInput.timeZone !== user.time_zone) {
+    await repos.users.updateTimeZone(user.id, timeZoneInput.timeZone);
+    user.time_zone = timeZoneInput.timeZone;
+  }
+
   const token = createAuthToken({ id: user.id, username: user.username });
-  res.json({ token, user: { id: user.id, username: user.username } });
+  res.json({ token, user: toAuthUserResponse(user) });
 });
 
-app.use("/api", (req, res, next) => {
+app.use("/api", async (req, res, next) => {
   if (req.path === "/health" || req.path === "/auth/register" || req.path === "/auth/login") {
     next();
     return;
   }
+  // Calendar apps and embedded images cannot send a JWT; their URLs carry their own token instead.
+  if (req.method === "GET" && /^\/(calendar\/[^/]+\.ics|badge\/[^/]+\.svg)$/.test(req.path)) {
+    next();
+    return;
+  }
 
   const authHeader = String(req.headers.authorization ?? "");
   if (!authHeader.startsWith("Bearer ")) {
@@ -299,10 +259,12 @@ app.use("/api", (req, res, next) => {
       return;
     }
 
-    (req as express.Request & { user?: { id: number; username: string } }).user = {
-      id: Number(decoded.sub),
-      username: decoded.username
-    };
+    const row = await repos.users.findById(Number(decoded.sub));
+    if (!row) {
+      res.status(401).json({ message: "Invalid token." });
+      return;
+    }
+    (req as AuthedRequest).user = toAuthUserResponse(row);
     next();
   } catch {
     res.status(401).json({ message: "Invalid token." });
@@ -318,6 +280,26 @@ app.get("/api/auth/me", (req, res) => {
   res.json({ user });
 });
 
+app.patch("/api/auth/me", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const timeZoneInput = parseTimeZoneInput(req.body?.timeZone);
+  if ("error" in timeZoneInput) {
+    res.status(400).json({ message: timeZoneInput.error });
+    return;
+  }
+  if (!timeZoneInput.timeZone) {
+    res.status(400).json({ message: "timeZone is required." });
+    return;
+  }
+
+  await repos.users.updateTimeZone(user.id, timeZoneInput.timeZone);
+  res.json({ user: { ...user, timeZone: timeZoneInput.timeZone } });
+});
+
 app.get("/api/health", (_req, res) => {
   res.json({ ok: true });
 });
@@ -328,17 +310,8 @@ app.get("/api/habits", async (_req, res) => {
     res.status(401).json({ message: "Unauthorized." });
     return;
   }
-  const habits = await all<HabitRow>(
-    "SELECT id, name, created_at FROM habits WHERE user_id = ? AND deleted_on IS NULL ORDER BY id ASC",
-    [user.id]
-  );
-  res.json(
-    habits.map((habit) => ({
-      id: habit.id,
-      name: habit.name,
-      createdAt: habit.created_at
-    }))
-  );
+  const habits = await repos.habits.listActive(user.id);
+  res.json(habits.map(toHabitResponse));
 });
 
 app.get("/api/checkins", async (req, res) => {
@@ -347,7 +320,7 @@ app.get("/api/checkins", async (req, res) => {
     res.status(401).json({ message: "Unauthorized." });
     return;
   }
-  const year = Number(req.query.year ?? new Date().getFullYear());
+  const year = Number(req.query.year ?? currentYearFor(user));
   const startQuery = typeof req.query.start === "string" ? req.query.start : "";
   const endQuery = typeof req.query.end === "string" ? req.query.end : "";
 
@@ -356,29 +329,55 @@ app.get("/api/checkins", async (req, res) => {
   let end = `${year}-12-31`;
 
   if (hasRange) {
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(startQuery) || !/^\d{4}-\d{2}-\d{2}$/.test(endQuery)) {
+    if (!isISODate(startQuery) || !isISODate(endQuery)) {
       res.status(400).json({ message: "start and end must be YYYY-MM-DD." });
       return;
     }
+    if (endQuery < startQuery || daysBetweenISO(startQuery, endQuery) >= MAX_CHECKIN_RANGE_DAYS) {
+      res.status(400).json({ message: `start must come before end, at most ${MAX_CHECKIN_RANGE_DAYS} days apart.` });
+      return;
+    }
     start = startQuery;
     end = endQuery;
   } else if (!Number.isInteger(year) || year < 1970 || year > 2100) {
     res.status(400).json({ message: "Invalid year." });
     return;
   }
+  const categoryFilter = parseCategoryInput(req.query.category);
+  if ("error" in categoryFilter) {
+    res.status(400).json({ message: categoryFilter.error });
+    return;
+  }
 
-  const data = await all<{ date: string; completed: number }>(
-    `SELECT c.date, SUM(c.completed) AS completed
-     FROM checkins c
-     JOIN habits h ON h.id = c.habit_id
-     WHERE c.date BETWEEN ? AND ?
-       AND h.user_id = ?
-       AND h.created_at <= c.date
-       AND (h.deleted_on IS NULL OR h.deleted_on > c.date)
-     GROUP BY c.date
-     ORDER BY c.date ASC`,
-    [start, end, user.id]
-  );
+  const today = todayInTimeZone(user.timeZone);
+  const lastDay = end < today ? end : today;
+
+  // Without a category filter the counts come straight from the materialized daily rollups.
+  if (!categoryFilter.category) {
+    await ensureRollups(user.id, today);
+    const rollups = await repos.rollups.listForUser(user.id, start, lastDay);
+    res.json(
+      rollups.filter((row) => row.completed > 0).map((row) => ({ date: row.date, completed: row.completed }))
+    );
+    return;
+  }
+
+  const habits = filterByCategory(await repos.habits.listAll(user.id), categoryFilter.category);
+  const rows = await repos.checkins.listForUser(user.id, start, end);
+  const completionsByHabit = groupCompletionsByHabit(rows);
+
+  // Walk the days rather than the rows so quit habits count their clean (row-less) days.
+  const earliestCreated = habits.map((habit) => habit.created_at).sort()[0];
+  const firstDay = earliestCreated && earliestCreated > start ? earliestCreated : start;
+  const data: Array<{ date: string; completed: number }> = [];
+  for (let iso = firstDay; iso <= lastDay; iso = addDaysISO(iso, 1)) {
+    const completed = habits.filter(
+      (habit) =>
+        isHabitDueOnDate(habit, iso) &&
+        isHabitDoneOnDate(habit, completionsByHabit.get(habit.id) ?? new Map(), iso)
+    ).length;
+    if (completed > 0) data.push({ date: iso, completed });
+  }
   res.json(data);
 });
 
@@ -388,19 +387,7 @@ app.get("/api/years", async (req, res) => {
     res.status(401).json({ message: "Unauthorized." });
     return;
   }
-  const rows = await all<{ year: string }>(
-    `SELECT DISTINCT substr(c.date, 1, 4) AS year
-     FROM checkins c
-     JOIN habits h ON h.id = c.habit_id
-     WHERE h.user_id = ?
-       AND c.date BETWEEN '0001-01-01' AND '9999-12-31'
-       AND h.created_at <= c.date
-       AND (h.deleted_on IS NULL OR h.deleted_on > c.date)
-     ORDER BY year DESC`
-    ,
-    [user.id]
-  );
-  res.json(rows.map((row) => Number(row.year)).filter((year) => Number.isInteger(year)));
+  res.json(await repos.checkins.listYearsForUser(user.id));
 });
 
 app.get("/api/summary", async (req, res) => {
@@ -409,18 +396,28 @@ app.get("/api/summary", async (req, res) => {
     res.status(401).json({ message: "Unauthorized." });
     return;
   }
-  const year = Number(req.query.year ?? new Date().getUTCFullYear());
-  if (!Number.isInteger(year) || year < 1970 || year > 2100) {
-    res.status(400).json({ message: "Invalid year." });
+  const parsedRange = parseSummaryRangeInput(req.query, currentYearFor(user));
+  if ("error" in parsedRange) {
+    res.status(400).json({ message: parsedRange.error });
+    return;
+  }
+  const { range } = parsedRange;
+  const categoryFilter = parseCategoryInput(req.query.category);
+  if ("error" in categoryFilter) {
+    res.status(400).json({ message: categoryFilter.error });
+    return;
+  }
+  const parsedGoal = parseGoalInput(req.query.goal);
+  if ("error" in parsedGoal) {
+    res.status(400).json({ message: parsedGoal.error });
     return;
   }
 
-  const habits = await all<HabitRow>(
-    "SELECT id, name, created_at, deleted_on FROM habits WHERE user_id = ? ORDER BY id ASC",
-    [user.id]
-  );
+  const habits = filterByCategory(await repos.habits.listAll(user.id), categoryFilter.category);
+  await withExcusedRanges(user.id, habits);
   if (habits.length === 0) {
     res.json({
+      range,
       year: { completed: 0, total: 0, consistency: 0 },
       currentWeek: { completed: 0, total: 0, consistency: 0 },
       currentMonth: { completed: 0, total: 0, consistency: 0 },
@@ -428,134 +425,37 @@ app.get("/api/summary", async (req, res) => {
       monthly: [],
       currentStreak: 0,
       longestStreak: 0,
+      freezesRemaining: 0,
+      frozenDays: [],
       lifetimeCompletions: 0,
       bestDay: "N/A",
       missedDayInsight: "No habit data yet.",
-      habitComparison: []
+      habitComparison: [],
+      periods: splitRange(range.start, range.end, range.granularity).map((bucket) => ({
+        ...bucket,
+        completed: 0,
+        total: 0,
+        consistency: 0,
+        rolling7: null,
+        rolling30: null
+      })),
+      trend: {
+        direction: "flat",
+        rolling7: 0,
+        rolling30: 0,
+        previous30: 0,
+        projectedYearEnd: 0,
+        monthGoal: { goal: parsedGoal.goal, completed: 0, total: 0, remainingDue: 0, needed: 0, reachable: true }
+      },
+      habitTrends: []
     });
     return;
   }
 
-  const nowISO = toISODate(new Date());
-  const today = fromISODate(nowISO);
-  const yearStart = new Date(Date.UTC(year, 0, 1));
-  const yearEnd = new Date(Date.UTC(year, 11, 31));
-  const currentWeekStart = startOfISOWeek(today);
-  const currentWeekEnd = endOfISOWeek(today);
-  const currentMonthStart = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
-  const currentMonthEnd = endOfMonthUTC(today.getUTCFullYear(), today.getUTCMonth());
-
-  const checkins = await all<HabitDateRow>(
-    `SELECT habit_id, date, completed
-     FROM checkins c
-     JOIN habits h ON h.id = c.habit_id
-     WHERE h.user_id = ?
-       AND date <= ?`,
-    [user.id, toISODate(today)]
-  );
-  const checkinsMap = new Map(checkins.map((row) => [`${row.habit_id}-${row.date}`, row.completed]));
-
-  const [yearSummary, weekSummary, monthSummary] = await Promise.all([
-    buildAllPeriodSummary(habits, checkinsMap, yearStart, yearEnd, today),
-    buildAllPeriodSummary(habits, checkinsMap, currentWeekStart, currentWeekEnd, today),
-    buildAllPeriodSummary(habits, checkinsMap, currentMonthStart, currentMonthEnd, today)
-  ]);
-
-  const weekly: Array<{ label: string; completed: number; total: number; consistency: number }> = [];
-  for (let i = 7; i >= 0; i -= 1) {
-    const start = addDaysUTC(currentWeekStart, -i * 7);
-    const end = addDaysUTC(start, 6);
-    const summary = await buildAllPeriodSummary(habits, checkinsMap, start, end, today);
-    weekly.push({ label: `${toISODate(start)} to ${toISODate(end)}`, ...summary });
-  }
-
-  const monthly: Array<{ label: string; completed: number; total: number; consistency: number }> = [];
-  for (let month = 0; month < 12; month += 1) {
-    const start = new Date(Date.UTC(year, month, 1));
-    const end = endOfMonthUTC(year, month);
-    const summary = await buildAllPeriodSummary(habits, checkinsMap, start, end, today);
-    monthly.push({ label: monthLabel(year, month), ...summary });
-  }
-
-  let currentStreak = 0;
-  for (let d = new Date(today); ; d = addDaysUTC(d, -1)) {
-    const iso = toISODate(d);
-    const activeHabits = habits.filter((habit) => isHabitActiveOnDate(habit, iso));
-    if (activeHabits.length === 0) break;
-    const doneCount = activeHabits.reduce(
-      (sum, habit) => sum + ((checkinsMap.get(`${habit.id}-${iso}`) ?? 0) === 1 ? 1 : 0),
-      0
-    );
-    if (doneCount === activeHabits.length) currentStreak += 1;
-    else break;
-  }
-
-  let longestStreak = 0;
-  let run = 0;
-  const earliestCreated = habits
-    .map((h) => h.created_at)
-    .sort()[0];
-  for (let d = fromISODate(earliestCreated); d <= today; d = addDaysUTC(d, 1)) {
-    const iso = toISODate(d);
-    const activeHabits = habits.filter((habit) => isHabitActiveOnDate(habit, iso));
-    if (activeHabits.length === 0) continue;
-    const doneCount = activeHabits.reduce(
-      (sum, habit) => sum + ((checkinsMap.get(`${habit.id}-${iso}`) ?? 0) === 1 ? 1 : 0),
-      0
-    );
-    if (doneCount === activeHabits.length) {
-      run += 1;
-      if (run > longestStreak) longestStreak = run;
-    } else {
-      run = 0;
-    }
-  }
-
-  const lifetimeCompletions = checkins.reduce((sum, row) => {
-    const habit = habits.find((h) => h.id === row.habit_id);
-    if (!habit) return sum;
-    if (!isHabitActiveOnDate(habit, row.date)) return sum;
-    return sum + (row.completed === 1 ? 1 : 0);
-  }, 0);
-
-  const weekdayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-  const weekdayStats = weekdayNames.map((name) => ({ name, done: 0, total: 0, rate: 0 }));
-  for (let d = new Date(yearStart); d <= (yearEnd < today ? yearEnd : today); d = addDaysUTC(d, 1)) {
-    const iso = toISODate(d);
-    const weekday = d.getUTCDay();
-    const activeHabits = habits.filter((habit) => isHabitActiveOnDate(habit, iso));
-    if (activeHabits.length === 0) continue;
-    for (const habit of activeHabits) {
-      weekdayStats[weekday].total += 1;
-      if ((checkinsMap.get(`${habit.id}-${iso}`) ?? 0) === 1) weekdayStats[weekday].done += 1;
-    }
-  }
-  weekdayStats.forEach((s) => {
-    s.rate = s.total === 0 ? 0 : Number(((s.done / s.total) * 100).toFixed(1));
-  });
-  const bestDay = [...weekdayStats].sort((a, b) => b.rate - a.rate)[0]?.name ?? "N/A";
-  const missedDay = [...weekdayStats].sort((a, b) => a.rate - b.rate)[0]?.name ?? "N/A";
-
-  const habitComparison: HabitComparisonItem[] = [];
-  for (const habit of habits) {
-    const start = yearStart > fromISODate(habit.created_at) ? yearStart : fromISODate(habit.created_at);
-    const summary = await buildPeriodSummary(habit.id, start, yearEnd, today);
-    habitComparison.push({ habitId: habit.id, name: habit.name, consistency: summary.consistency });
-  }
-
-  res.json({
-    year: yearSummary,
-    currentWeek: weekSummary,
-    currentMonth: monthSummary,
-    weekly,
-    monthly,
-    currentStreak,
-    longestStreak,
-    lifetimeCompletions,
-    bestDay,
-    missedDayInsight: `You miss your habits most on ${missedDay}.`,
-    habitComparison
-  });
+  const nowISO = todayInTimeZone(user.timeZone);
+  const checkinsByHabit = groupCheckinsByHabit(await repos.checkins.listForUser(user.id, "0001-01-01", nowISO));
+  const ledgers = habits.map((habit) => buildHabitLedger(habit, checkinsByHabit.get(habit.id), nowISO));
+  res.json(summarizeHabits(ledgers, range, nowISO, parsedGoal.goal));
 });
 
 app.post("/api/habits", async (req, res) => {
@@ -570,11 +470,11 @@ app.post("/api/habits", async (req, res) => {
     return;
   }
   const createdAt = String(req.body?.createdAt ?? "").trim();
-  const today = toISODate(new Date());
+  const today = todayInTimeZone(user.timeZone);
 
   let finalCreatedAt = today;
   if (createdAt) {
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(createdAt)) {
+    if (!isISODate(createdAt)) {
       res.status(400).json({ message: "createdAt must be YYYY-MM-DD." });
       return;
     }
@@ -585,56 +485,87 @@ app.post("/api/habits", async (req, res) => {
     finalCreatedAt = createdAt;
   }
 
-  const existingActive = await get<HabitRow>(
-    "SELECT id FROM habits WHERE user_id = ? AND lower(name) = lower(?) AND deleted_on IS NULL",
-    [user.id, name]
-  );
-  if (existingActive) {
-    res.status(409).json({ message: "Habit already exists." });
+  const parsedSchedule = parseScheduleInput(req.body?.schedule);
+  if ("error" in parsedSchedule) {
+    res.status(400).json({ message: parsedSchedule.error });
     return;
   }
 
-  const existingDeleted = await get<HabitRow>(
-    "SELECT id FROM habits WHERE user_id = ? AND lower(name) = lower(?) AND deleted_on IS NOT NULL ORDER BY deleted_on DESC LIMIT 1",
-    [user.id, name]
-  );
-  if (existingDeleted) {
-    await run(
-      "UPDATE habits SET deleted_on = NULL, created_at = ? WHERE id = ? AND user_id = ?",
-      [finalCreatedAt, existingDeleted.id, user.id]
-    );
-    const restored = await get<HabitRow>(
-      "SELECT id, name, created_at FROM habits WHERE id = ? AND user_id = ?",
-      [existingDeleted.id, user.id]
-    );
-    res.status(201).json({
-      id: restored?.id,
-      name: restored?.name,
-      createdAt: restored?.created_at
-    });
+  const parsedTarget = parseTargetInput(req.body ?? {});
+  if ("error" in parsedTarget) {
+    res.status(400).json({ message: parsedTarget.error });
+    return;
+  }
+
+  const parsedPolarity = parsePolarityInput(req.body?.polarity);
+  if ("error" in parsedPolarity) {
+    res.status(400).json({ message: parsedPolarity.error });
+    return;
+  }
+  if (
+    parsedPolarity.polarity === "quit" &&
+    (parsedSchedule.schedule.type !== "daily" || parsedTarget.dailyTarget !== null)
+  ) {
+    res.status(400).json({ message: "Quit habits are tracked daily and cannot have a target." });
+    return;
+  }
+
+  const parsedCategory = parseCategoryInput(req.body?.category);
+  if ("error" in parsedCategory) {
+    res.status(400).json({ message: parsedCategory.error });
+    return;
+  }
+  const parsedColor = parseColorInput(req.body?.color);
+  if ("error" in parsedColor) {
+    res.status(400).json({ message: parsedColor.error });
     return;
   }
 
+  let outcome: { conflict: string } | { habit: HabitRow | undefined };
   try {
-    const result = await run(
-      "INSERT INTO habits (name, user_id, created_at) VALUES (?, ?, ?) RETURNING id",
-      [name, user.id, finalCreatedAt]
-    );
-    const habit = await get<HabitRow>(
-      "SELECT id, name, created_at FROM habits WHERE id = ? AND user_id = ?",
-      [result.lastID, user.id]
-    );
-    res.status(201).json({
-      id: habit?.id,
-      name: habit?.name,
-      createdAt: habit?.created_at
+    outcome = await inTransaction(async (tx) => {
+      if (await tx.habits.findByName(user.id, name, { archived: false })) {
+        return { conflict: "Habit already exists." };
+      }
+      if (await tx.habits.findByName(user.id, name, { archived: true })) {
+        return { conflict: "An archived habit has this name. Restore it from Archived habits instead." };
+      }
+      const habitId = await tx.habits.create(user.id, {
+        name,
+        createdAt: finalCreatedAt,
+        schedule: parsedSchedule.schedule,
+        unit: parsedTarget.unit,
+        dailyTarget: parsedTarget.dailyTarget,
+        polarity: parsedPolarity.polarity,
+        category: parsedCategory.category,
+        color: parsedColor.color
+      });
+      await refreshRollups(tx, user.id, finalCreatedAt);
+      return { habit: await tx.habits.findById(user.id, habitId) };
     });
-  } catch {
-    res.status(409).json({ message: "Habit already exists." });
+  } catch (error) {
+    // The name is checked inside the transaction, so only a concurrent create can still hit the unique index.
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ message: "Habit already exists." });
+      return;
+    }
+    // eslint-disable-next-line no-console
+    console.error(`Failed to create habit: ${(error as Error).message}`);
+    res.status(500).json({ message: "Unable to create habit." });
+    return;
+  }
+  if ("conflict" in outcome) {
+    res.status(409).json({ message: outcome.conflict });
+    return;
+  }
+  if (!outcome.habit) {
+    res.status(500).json({ message: "Unable to create habit." });
+    return;
   }
+  res.status(201).json(toHabitResponse(outcome.habit));
 });
 
-app.delete("/api/habits/:habitId", async (req, res) => {
+app.patch("/api/habits/:habitId", async (req, res) => {
   const user = getAuthUser(req);
   if (!user) {
     res.status(401).json({ message: "Unauthorized." });
@@ -646,296 +577,579 @@ app.delete("/api/habits/:habitId", async (req, res) => {
     return;
   }
 
-  const habit = await get<HabitRow>(
-    "SELECT id, deleted_on FROM habits WHERE id = ? AND user_id = ?",
-    [habitId, user.id]
-  );
+  const habit = await repos.habits.findById(user.id, habitId);
   if (!habit) {
     res.status(404).json({ message: "Habit not found." });
     return;
   }
-  if (habit.deleted_on) {
-    res.json({ success: true });
+
+  const body = req.body ?? {};
+  const name = body.name === undefined ? habit.name : String(body.name).trim();
+  if (!name) {
+    res.status(400).json({ message: "Habit name is required." });
     return;
   }
 
-  const today = toISODate(new Date());
-  await run("UPDATE habits SET deleted_on = ? WHERE id = ? AND user_id = ?", [today, habitId, user.id]);
-  res.json({ success: true });
-});
-
-app.get("/api/habits/:habitId/checkins", async (req, res) => {
-  const user = getAuthUser(req);
-  if (!user) {
-    res.status(401).json({ message: "Unauthorized." });
+  const createdAt = body.createdAt === undefined ? habit.created_at : String(body.createdAt).trim();
+  if (!isISODate(createdAt)) {
+    res.status(400).json({ message: "createdAt must be YYYY-MM-DD." });
     return;
   }
-  const habitId = Number(req.params.habitId);
-  const year = Number(req.query.year ?? new Date().getFullYear());
-  const startQuery = typeof req.query.start === "string" ? req.query.start : "";
-  const endQuery = typeof req.query.end === "string" ? req.query.end : "";
-
-  if (!Number.isInteger(habitId) || habitId <= 0) {
-    res.status(400).json({ message: "Invalid habit id." });
+  if (createdAt > todayInTimeZone(user.timeZone)) {
+    res.status(400).json({ message: "createdAt cannot be in the future." });
+    return;
+  }
+  if (habit.deleted_on && createdAt >= habit.deleted_on) {
+    res.status(400).json({ message: "createdAt must be before the habit was deleted." });
     return;
   }
 
-  const hasRange = Boolean(startQuery || endQuery);
-  let start = `${year}-01-01`;
-  let end = `${year}-12-31`;
+  if (body.polarity !== undefined && body.polarity !== getHabitPolarity(habit)) {
+    res.status(400).json({ message: "A habit's polarity cannot be changed after it is created." });
+    return;
+  }
 
-  if (hasRange) {
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(startQuery) || !/^\d{4}-\d{2}-\d{2}$/.test(endQuery)) {
-      res.status(400).json({ message: "start and end must be YYYY-MM-DD." });
-      return;
-    }
-    start = startQuery;
-    end = endQuery;
-  } else if (!Number.isInteger(year) || year < 1970 || year > 2100) {
-    res.status(400).json({ message: "Invalid year." });
+  const parsedSchedule =
+    body.schedule === undefined ? { schedule: getHabitSchedule(habit) } : parseScheduleInput(body.schedule);
+  if ("error" in parsedSchedule) {
+    res.status(400).json({ message: parsedSchedule.error });
     return;
   }
 
-  const habit = await get<HabitRow>(
-    "SELECT id, created_at, deleted_on FROM habits WHERE id = ? AND user_id = ?",
-    [habitId, user.id]
-  );
-  if (!habit) {
-    res.status(404).json({ message: "Habit not found." });
+  const parsedTarget = parseTargetInput({
+    unit: body.unit === undefined ? habit.unit : body.unit,
+    dailyTarget: body.dailyTarget === undefined ? habit.daily_target : body.dailyTarget
+  });
+  if ("error" in parsedTarget) {
+    res.status(400).json({ message: parsedTarget.error });
+    return;
+  }
+  if (
+    getHabitPolarity(habit) === "quit" &&
+    (parsedSchedule.schedule.type !== "daily" || parsedTarget.dailyTarget !== null)
+  ) {
+    res.status(400).json({ message: "Quit habits are tracked daily and cannot have a target." });
     return;
   }
 
-  const boundedStart = start < habit.created_at ? habit.created_at : start;
-  const deletedUntil = habit.deleted_on ? dayBeforeISO(habit.deleted_on) : null;
-  const boundedEnd = deletedUntil && deletedUntil < end ? deletedUntil : end;
-  if (boundedEnd < boundedStart) {
-    res.json([]);
+  const parsedCategory = parseCategoryInput(body.category === undefined ? habit.category : body.category);
+  if ("error" in parsedCategory) {
+    res.status(400).json({ message: parsedCategory.error });
+    return;
+  }
+  const parsedColor = parseColorInput(body.color === undefined ? habit.color : body.color);
+  if ("error" in parsedColor) {
+    res.status(400).json({ message: parsedColor.error });
     return;
   }
 
-  const data = await all<CheckinRow>(
-    "SELECT date, completed FROM checkins WHERE habit_id = ? AND date BETWEEN ? AND ?",
-    [habitId, boundedStart, boundedEnd]
-  );
-  res.json(data);
+  // The unique index covers archived habits too, so a rename must not collide with any of them.
+  let updated: HabitRow | undefined | null;
+  try {
+    updated = await inTransaction(async (tx) => {
+      if (await tx.habits.findByName(user.id, name, { excludeId: habitId })) return null;
+      await tx.habits.update(user.id, habitId, {
+        name,
+        createdAt,
+        schedule: parsedSchedule.schedule,
+        unit: parsedTarget.unit,
+        dailyTarget: parsedTarget.dailyTarget,
+        category: parsedCategory.category,
+        color: parsedColor.color
+      });
+      // Logged values are re-graded so `completed` keeps matching the new target.
+      if (parsedTarget.dailyTarget !== null && parsedTarget.dailyTarget !== habit.daily_target) {
+        await tx.checkins.recomputeCompletion(habitId, parsedTarget.dailyTarget);
+      }
+      // Start date, schedule and target decide which days are due and done, so re-roll the habit's whole life.
+      if (
+        createdAt !== habit.created_at ||
+        JSON.stringify(parsedSchedule.schedule) !== JSON.stringify(getHabitSchedule(habit)) ||
+        parsedTarget.dailyTarget !== (habit.daily_target ?? null)
+      ) {
+        await refreshRollups(tx, user.id, createdAt < habit.created_at ? createdAt : habit.created_at);
+      }
+      return tx.habits.findById(user.id, habitId);
+    });
+  } catch (error) {
+    if (!isUniqueViolation(error)) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to update habit: ${(error as Error).message}`);
+      res.status(500).json({ message: "Unable to update habit." });
+      return;
+    }
+    updated = null;
+  }
+  if (updated === null) {
+    res.status(409).json({ message: "Habit already exists." });
+    return;
+  }
+  if (!updated) {
+    res.status(500).json({ message: "Unable to update habit." });
+    return;
+  }
+  res.json(toHabitResponse(updated));
 });
 
-app.get("/api/habits/:habitId/years", async (req, res) => {
+app.delete("/api/habits/:habitId", async (req, res) => {
   const user = getAuthUser(req);
   if (!user) {
     res.status(401).json({ message: "Unauthorized." });
     return;
   }
   const habitId = Number(req.params.habitId);
-
   if (!Number.isInteger(habitId) || habitId <= 0) {
     res.status(400).json({ message: "Invalid habit id." });
     return;
   }
 
-  const habit = await get<HabitRow>("SELECT id FROM habits WHERE id = ? AND user_id = ?", [habitId, user.id]);
+  const habit = await repos.habits.findById(user.id, habitId);
   if (!habit) {
     res.status(404).json({ message: "Habit not found." });
     return;
   }
+  if (habit.deleted_on) {
+    res.json({ success: true });
+    return;
+  }
 
-  const rows = await all<{ year: string }>(
-    `SELECT DISTINCT substr(date, 1, 4) AS year
-     FROM checkins
-     WHERE habit_id = ?
-       AND date >= (SELECT created_at FROM habits WHERE id = ? AND user_id = ?)
-       AND (
-         (SELECT deleted_on FROM habits WHERE id = ? AND user_id = ?) IS NULL
-         OR date < (SELECT deleted_on FROM habits WHERE id = ? AND user_id = ?)
-       )
-     ORDER BY year DESC`,
-    [habitId, habitId, user.id, habitId, user.id, habitId, user.id]
-  );
-
-  res.json(rows.map((row) => Number(row.year)).filter((year) => Number.isInteger(year)));
+  const today = todayInTimeZone(user.timeZone);
+  await inTransaction(async (tx) => {
+    await tx.habits.archive(user.id, habitId, today);
+    await refreshRollups(tx, user.id, today);
+  });
+  res.json({ success: true });
 });
 
-app.get("/api/streak", async (_req, res) => {
-  const user = getAuthUser(_req);
+app.get("/api/habits/archived", async (req, res) => {
+  const user = getAuthUser(req);
   if (!user) {
     res.status(401).json({ message: "Unauthorized." });
     return;
   }
-  const today = toISODate(new Date());
-  const allHabits = await all<HabitRow>(
-    "SELECT id, created_at, deleted_on, name FROM habits WHERE user_id = ?",
-    [user.id]
-  );
-  if (allHabits.length === 0) {
-    res.json({ streak: 0, date: today });
-    return;
-  }
+  const habits = await repos.habits.listArchived(user.id);
+  await withExcusedRanges(user.id, habits);
 
-  const rows = await all<{ habit_id: number; date: string; completed: number }>(
-    `SELECT habit_id, date, completed
-     FROM checkins c
-     JOIN habits h ON h.id = c.habit_id
-     WHERE h.user_id = ?
-       AND date <= ?`,
-    [user.id, today]
+  const checkinsByHabit = groupCheckinsByHabit(
+    await repos.checkins.listForUser(user.id, "0001-01-01", todayInTimeZone(user.timeZone))
   );
-  const checkinMap = new Map(rows.map((row) => [`${row.habit_id}-${row.date}`, row.completed]));
-  let streak = 0;
-
-  for (let d = fromISODate(today); ; d = addDaysUTC(d, -1)) {
-    const iso = toISODate(d);
-    const activeHabits = allHabits.filter(
-      (habit) =>
-        habit.created_at <= iso && (!habit.deleted_on || habit.deleted_on > iso)
-    );
-    if (activeHabits.length === 0) {
-      break;
-    }
-    const doneCount = activeHabits.reduce(
-      (sum, habit) => sum + ((checkinMap.get(`${habit.id}-${iso}`) ?? 0) === 1 ? 1 : 0),
-      0
-    );
-    if (doneCount === activeHabits.length) {
-      streak += 1;
-      continue;
-    }
-    break;
-  }
-
-  res.json({ streak, date: today });
+  const archived = habits.map((habit) => {
+    const lastActive = dayBeforeISO(String(habit.deleted_on));
+    const ledger = buildHabitLedger(habit, checkinsByHabit.get(habit.id), lastActive);
+    const history = summarizePeriod(ledger, habit.created_at, lastActive, lastActive);
+    return { ...toHabitResponse(habit), deletedOn: habit.deleted_on, history };
+  });
+  res.json(archived);
 });
 
-app.get("/api/habits/:habitId/summary", async (req, res) => {
+app.post("/api/habits/:habitId/restore", async (req, res) => {
   const user = getAuthUser(req);
   if (!user) {
     res.status(401).json({ message: "Unauthorized." });
     return;
   }
   const habitId = Number(req.params.habitId);
-  const year = Number(req.query.year ?? new Date().getUTCFullYear());
-
   if (!Number.isInteger(habitId) || habitId <= 0) {
     res.status(400).json({ message: "Invalid habit id." });
     return;
   }
 
-  if (!Number.isInteger(year) || year < 1970 || year > 2100) {
-    res.status(400).json({ message: "Invalid year." });
+  const habit = await repos.habits.findById(user.id, habitId);
+  if (!habit) {
+    res.status(404).json({ message: "Habit not found." });
     return;
   }
-
-  const habit = await get<HabitRow>(
-    "SELECT id, created_at, deleted_on FROM habits WHERE id = ? AND user_id = ?",
-    [habitId, user.id]
-  );
+  if (!habit.deleted_on) {
+    res.json(toHabitResponse(habit));
+    return;
+  }
+
+  // Without a gap the archived days count as due again; with one they are left out of every summary.
+  const today = todayInTimeZone(user.timeZone);
+  const lastArchivedDay = dayBeforeISO(today);
+  const inactiveRanges =
+    Boolean(req.body?.keepGap) && habit.deleted_on <= lastArchivedDay
+      ? withInactiveRange(habit, habit.deleted_on, lastArchivedDay)
+      : habit.inactive_ranges ?? null;
+  await inTransaction(async (tx) => {
+    await tx.habits.restore(user.id, habitId, inactiveRanges);
+    await refreshRollups(tx, user.id, String(habit.deleted_on));
+  });
+
+  const restored = await repos.habits.findById(user.id, habitId);
+  if (!restored) {
+    res.status(500).json({ message: "Unable to restore habit." });
+    return;
+  }
+  res.json(toHabitResponse(restored));
+});
+
+app.delete("/api/habits/:habitId/purge", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const habitId = Number(req.params.habitId);
+  if (!Number.isInteger(habitId) || habitId <= 0) {
+    res.status(400).json({ message: "Invalid habit id." });
+    return;
+  }
+
+  const habit = await repos.habits.findById(user.id, habitId);
+  if (!habit) {
+    res.status(404).json({ message: "Habit not found." });
+    return;
+  }
+  if (!habit.deleted_on) {
+    res.status(400).json({ message: "Archive a habit before deleting it permanently." });
+    return;
+  }
+
+  await inTransaction(async (tx) => {
+    await tx.checkins.removeForHabit(habitId);
+    await tx.excused.removeForHabit(habitId);
+    await tx.habits.remove(user.id, habitId);
+    await refreshRollups(tx, user.id, habit.created_at);
+  });
+  res.json({ success: true });
+});
+
+app.get("/api/habits/:habitId/checkins", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const habitId = Number(req.params.habitId);
+  const year = Number(req.query.year ?? currentYearFor(user));
+  const startQuery = typeof req.query.start === "string" ? req.query.start : "";
+  const endQuery = typeof req.query.end === "string" ? req.query.end : "";
+
+  if (!Number.isInteger(habitId) || habitId <= 0) {
+    res.status(400).json({ message: "Invalid habit id." });
+    return;
+  }
+
+  const hasRange = Boolean(startQuery || endQuery);
+  let start = `${year}-01-01`;
+  let end = `${year}-12-31`;
+
+  if (hasRange) {
+    if (!isISODate(startQuery) || !isISODate(endQuery)) {
+      res.status(400).json({ message: "start and end must be YYYY-MM-DD." });
+      return;
+    }
+    if (endQuery < startQuery || daysBetweenISO(startQuery, endQuery) >= MAX_CHECKIN_RANGE_DAYS) {
+      res.status(400).json({ message: `start must come before end, at most ${MAX_CHECKIN_RANGE_DAYS} days apart.` });
+      return;
+    }
+    start = startQuery;
+    end = endQuery;
+  } else if (!Number.isInteger(year) || year < 1970 || year > 2100) {
+    res.status(400).json({ message: "Invalid year." });
+    return;
+  }
+
+  const habit = await repos.habits.findById(user.id, habitId);
+  if (!habit) {
+    res.status(404).json({ message: "Habit not found." });
+    return;
+  }
+
+  const boundedStart = start < habit.created_at ? habit.created_at : start;
+  const deletedUntil = habit.deleted_on ? dayBeforeISO(habit.deleted_on) : null;
+  const boundedEnd = deletedUntil && deletedUntil < end ? deletedUntil : end;
+  if (boundedEnd < boundedStart) {
+    res.json([]);
+    return;
+  }
+
+  const data = await repos.checkins.listForHabit(habitId, { start: boundedStart, end: boundedEnd });
+  if (getHabitPolarity(habit) === "quit") {
+    // A quit habit has no row for clean days, so report every elapsed day with its outcome.
+    const completionsMap = new Map(data.map((row) => [row.date, row.completed === 1]));
+    const notesByDate = new Map(data.map((row) => [row.date, row.note ?? null]));
+    const today = todayInTimeZone(user.timeZone);
+    const lastDay = boundedEnd < today ? boundedEnd : today;
+    const days: CheckinRow[] = [];
+    for (let iso = boundedStart; iso <= lastDay; iso = addDaysISO(iso, 1)) {
+      if (!isHabitActiveOnDate(habit, iso)) continue;
+      days.push({
+        date: iso,
+        completed: isHabitDoneOnDate(habit, completionsMap, iso) ? 1 : 0,
+        note: notesByDate.get(iso) ?? null
+      });
+    }
+    res.json(days);
+    return;
+  }
+  res.json(data.filter((row) => isHabitDueOnDate(habit, row.date)));
+});
+
+app.get("/api/habits/:habitId/years", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const habitId = Number(req.params.habitId);
+
+  if (!Number.isInteger(habitId) || habitId <= 0) {
+    res.status(400).json({ message: "Invalid habit id." });
+    return;
+  }
+
+  const habit = await repos.habits.findById(user.id, habitId);
   if (!habit) {
     res.status(404).json({ message: "Habit not found." });
     return;
   }
-  const allHabits = await all<HabitRow>(
-    "SELECT id, name, created_at FROM habits WHERE user_id = ? ORDER BY id ASC",
-    [user.id]
+
+  res.json(await repos.checkins.listYearsForHabit(user.id, habitId));
+});
+
+app.get("/api/streak", async (_req, res) => {
+  const user = getAuthUser(_req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const today = todayInTimeZone(user.timeZone);
+  const allHabits = await repos.habits.listAll(user.id);
+  await withExcusedRanges(user.id, allHabits);
+  if (allHabits.length === 0) {
+    res.json({ streak: 0, date: today, freezesRemaining: 0, frozenDays: [] });
+    return;
+  }
+
+  const checkinsByHabit = groupCheckinsByHabit(await repos.checkins.listForUser(user.id, "0001-01-01", today));
+  const ledgers = allHabits.map((habit) => buildHabitLedger(habit, checkinsByHabit.get(habit.id), today));
+  const { currentStreak, freezesRemaining, frozenDays } = combinedStreak(ledgers, today);
+
+  res.json({ streak: currentStreak, date: today, freezesRemaining, frozenDays });
+});
+
+app.get("/api/streaks", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const categoryFilter = parseCategoryInput(req.query.category);
+  if ("error" in categoryFilter) {
+    res.status(400).json({ message: categoryFilter.error });
+    return;
+  }
+  const today = todayInTimeZone(user.timeZone);
+  const habits = filterByCategory(await repos.habits.listAll(user.id), categoryFilter.category);
+  await withExcusedRanges(user.id, habits);
+  if (habits.length === 0) {
+    res.json({ runs: [], currentStreak: 0, longestStreak: 0, longestSetOn: null, currentRank: null });
+    return;
+  }
+
+  const checkinsByHabit = groupCheckinsByHabit(await repos.checkins.listForUser(user.id, "0001-01-01", today));
+  const ledgers = habits.map((habit) => buildHabitLedger(habit, checkinsByHabit.get(habit.id), today));
+  res.json(streakHistory(combinedStreak(ledgers, today)));
+});
+
+app.get("/api/insights", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const today = todayInTimeZone(user.timeZone);
+  const parsedRange = parseInsightRangeInput(req.query, today);
+  if ("error" in parsedRange) {
+    res.status(400).json({ message: parsedRange.error });
+    return;
+  }
+  const categoryFilter = parseCategoryInput(req.query.category);
+  if ("error" in categoryFilter) {
+    res.status(400).json({ message: categoryFilter.error });
+    return;
+  }
+  const focusHabitId = req.query.habitId === undefined ? undefined : Number(req.query.habitId);
+  if (focusHabitId !== undefined && (!Number.isInteger(focusHabitId) || focusHabitId <= 0)) {
+    res.status(400).json({ message: "Invalid habit id." });
+    return;
+  }
+
+  const habits = filterByCategory(await repos.habits.listAll(user.id), categoryFilter.category);
+  await withExcusedRanges(user.id, habits);
+  const { range } = parsedRange;
+  // Weekly quotas look at the whole ISO week, so the week around the range edges is loaded too.
+  const checkins = await repos.checkins.listForUser(user.id, addDaysISO(range.start, -6), addDaysISO(range.end, 6));
+  const checkinsByHabit = groupCheckinsByHabit(checkins);
+  const ledgers = habits.map((habit) => buildHabitLedger(habit, checkinsByHabit.get(habit.id), today));
+  res.json(computeInsights(ledgers, range, focusHabitId));
+});
+
+app.get("/api/review", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const year = Number(req.query.year ?? currentYearFor(user));
+  if (!Number.isInteger(year) || year < 1970 || year > 2100) {
+    res.status(400).json({ message: "Invalid year." });
+    return;
+  }
+  if (year > currentYearFor(user)) {
+    res.status(400).json({ message: "That year has not started yet." });
+    return;
+  }
+
+  const today = todayInTimeZone(user.timeZone);
+  const habits = await repos.habits.listAll(user.id);
+  await withExcusedRanges(user.id, habits);
+  // The year before is loaded as well for the most improved habit.
+  const checkinsByHabit = groupCheckinsByHabit(
+    await repos.checkins.listForUser(user.id, `${year - 2}-12-25`, `${year + 1}-01-07`)
   );
+  const ledgers = habits.map((habit) => buildHabitLedger(habit, checkinsByHabit.get(habit.id), today));
+  res.json(buildYearReview(ledgers, year, today));
+});
+
+app.get("/api/habits/:habitId/streaks", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const habitId = Number(req.params.habitId);
+  if (!Number.isInteger(habitId) || habitId <= 0) {
+    res.status(400).json({ message: "Invalid habit id." });
+    return;
+  }
+  const habit = await repos.habits.findById(user.id, habitId);
+  if (!habit) {
+    res.status(404).json({ message: "Habit not found." });
+    return;
+  }
+  await withExcusedRanges(user.id, [habit]);
 
-  const now = toISODate(new Date());
+  const now = todayInTimeZone(user.timeZone);
   const effectiveTodayISO =
     habit.deleted_on && habit.deleted_on <= now ? dayBeforeISO(habit.deleted_on) : now;
-  const today = fromISODate(effectiveTodayISO);
-  const createdAt = fromISODate(habit.created_at);
-  const yearStart = new Date(Date.UTC(year, 0, 1));
-  const yearEnd = new Date(Date.UTC(year, 11, 31));
-  const effectiveYearStart = yearStart > createdAt ? yearStart : createdAt;
-  const currentWeekStart = startOfISOWeek(today);
-  const currentWeekEnd = endOfISOWeek(today);
-  const currentMonthStart = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
-  const currentMonthEnd = endOfMonthUTC(today.getUTCFullYear(), today.getUTCMonth());
-
-  const [yearSummary, weekSummary, monthSummary] = await Promise.all([
-    buildPeriodSummary(habitId, effectiveYearStart, yearEnd, today),
-    buildPeriodSummary(habitId, currentWeekStart, currentWeekEnd, today),
-    buildPeriodSummary(habitId, currentMonthStart, currentMonthEnd, today)
-  ]);
-
-  const weekly: Array<{ label: string; completed: number; total: number; consistency: number }> =
-    [];
-  for (let i = 7; i >= 0; i -= 1) {
-    const start = addDaysUTC(currentWeekStart, -i * 7);
-    const end = addDaysUTC(start, 6);
-    const summary = await buildPeriodSummary(habitId, start, end, today);
-    weekly.push({
-      label: `${toISODate(start)} to ${toISODate(end)}`,
-      ...summary
-    });
+  const checkins = await repos.checkins.listForHabit(habitId, { start: habit.created_at, end: effectiveTodayISO });
+  const facts = groupCheckinsByHabit(checkins.map((row) => ({ ...row, habit_id: habitId }))).get(habitId);
+  const ledger = buildHabitLedger(habit, facts, effectiveTodayISO);
+  res.json(streakHistory(habitStreak(ledger, effectiveTodayISO)));
+});
+
+app.get("/api/habits/:habitId/summary", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
   }
+  const habitId = Number(req.params.habitId);
 
-  const monthly: Array<{
-    label: string;
-    completed: number;
-    total: number;
-    consistency: number;
-  }> = [];
-
-  for (let month = 0; month < 12; month += 1) {
-    const start = new Date(Date.UTC(year, month, 1));
-    const end = endOfMonthUTC(year, month);
-    const effectiveStart = start > createdAt ? start : createdAt;
-    const summary = await buildPeriodSummary(habitId, effectiveStart, end, today);
-    monthly.push({
-      label: monthLabel(year, month),
-      ...(effectiveStart > end ? { completed: 0, total: 0, consistency: 0 } : summary)
-    });
+  if (!Number.isInteger(habitId) || habitId <= 0) {
+    res.status(400).json({ message: "Invalid habit id." });
+    return;
   }
 
-  const completionsMap = await getHabitCompletionsMap(habitId);
-  const { currentStreak, longestStreak } = computeStreaksFromMap(completionsMap, createdAt, today);
+  const parsedRange = parseSummaryRangeInput(req.query, currentYearFor(user));
+  if ("error" in parsedRange) {
+    res.status(400).json({ message: parsedRange.error });
+    return;
+  }
+  const parsedGoal = parseGoalInput(req.query.goal);
+  if ("error" in parsedGoal) {
+    res.status(400).json({ message: parsedGoal.error });
+    return;
+  }
 
-  const lifetimeCompletionsRow = await get<{ completed: number }>(
-    "SELECT COALESCE(SUM(completed), 0) AS completed FROM checkins WHERE habit_id = ?",
-    [habitId]
-  );
-  const lifetimeCompletions = lifetimeCompletionsRow?.completed ?? 0;
-
-  const weekdayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-  const weekdayStats = weekdayNames.map((name) => ({ name, done: 0, total: 0, rate: 0 }));
-  for (let d = new Date(yearStart); d <= (yearEnd < today ? yearEnd : today); d = addDaysUTC(d, 1)) {
-    const weekday = d.getUTCDay();
-    weekdayStats[weekday].total += 1;
-    if (completionsMap.get(toISODate(d))) {
-      weekdayStats[weekday].done += 1;
+  const habit = await repos.habits.findById(user.id, habitId);
+  if (!habit) {
+    res.status(404).json({ message: "Habit not found." });
+    return;
+  }
+  const allHabits = await repos.habits.listAll(user.id);
+  await withExcusedRanges(user.id, [habit, ...allHabits]);
+
+  // An archived habit is summarized as of its last active day.
+  const now = todayInTimeZone(user.timeZone);
+  const effectiveTodayISO =
+    habit.deleted_on && habit.deleted_on <= now ? dayBeforeISO(habit.deleted_on) : now;
+  const checkinsByHabit = groupCheckinsByHabit(await repos.checkins.listForUser(user.id, "0001-01-01", now));
+  const others = allHabits.map((entry) => buildHabitLedger(entry, checkinsByHabit.get(entry.id), now));
+  const ledger = buildHabitLedger(habit, checkinsByHabit.get(habit.id), effectiveTodayISO);
+  res.json(summarizeHabit(ledger, others, parsedRange.range, effectiveTodayISO, parsedGoal.goal));
+});
+
+app.get("/api/excused", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const ranges = await repos.excused.listForUser(user.id);
+  res.json(ranges.map(toExcusedRangeResponse));
+});
+
+app.post("/api/excused", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const start = String(req.body?.start ?? "").trim();
+  const end = String(req.body?.end ?? start).trim();
+  const reason = String(req.body?.reason ?? "").trim();
+  const habitId = req.body?.habitId === undefined || req.body?.habitId === null ? null : Number(req.body.habitId);
+
+  if (!isISODate(start) || !isISODate(end)) {
+    res.status(400).json({ message: "start and end must be YYYY-MM-DD." });
+    return;
+  }
+  if (end < start) {
+    res.status(400).json({ message: "end must not be before start." });
+    return;
+  }
+  if (reason.length > 120) {
+    res.status(400).json({ message: "reason must be at most 120 characters." });
+    return;
+  }
+  if (habitId !== null) {
+    if (!Number.isInteger(habitId) || habitId <= 0) {
+      res.status(400).json({ message: "Invalid habit id." });
+      return;
+    }
+    const habit = await repos.habits.findById(user.id, habitId);
+    if (!habit) {
+      res.status(404).json({ message: "Habit not found." });
+      return;
     }
   }
-  weekdayStats.forEach((s) => {
-    s.rate = s.total === 0 ? 0 : Number(((s.done / s.total) * 100).toFixed(1));
-  });
-  const bestDay = [...weekdayStats].sort((a, b) => b.rate - a.rate)[0]?.name ?? "N/A";
-  const missedDay = [...weekdayStats].sort((a, b) => a.rate - b.rate)[0]?.name ?? "N/A";
-  const missedDayInsight = `You miss this habit most on ${missedDay}.`;
-
-  const habitComparison: HabitComparisonItem[] = [];
-  for (const entry of allHabits) {
-    const rowCreatedAt = fromISODate(entry.created_at);
-    const start = yearStart > rowCreatedAt ? yearStart : rowCreatedAt;
-    const comparisonSummary = await buildPeriodSummary(entry.id, start, yearEnd, today);
-    habitComparison.push({
-      habitId: entry.id,
-      name: entry.name,
-      consistency: comparisonSummary.consistency
-    });
+
+  const range = { habit_id: habitId, start_date: start, end_date: end, reason: reason || null };
+  const excusedId = await repos.excused.create(user.id, range);
+  res.status(201).json(toExcusedRangeResponse({ id: excusedId, ...range }));
+});
+
+app.delete("/api/excused/:excusedId", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const excusedId = Number(req.params.excusedId);
+  if (!Number.isInteger(excusedId) || excusedId <= 0) {
+    res.status(400).json({ message: "Invalid excused range id." });
+    return;
   }
 
-  res.json({
-    year: yearSummary,
-    currentWeek: weekSummary,
-    currentMonth: monthSummary,
-    weekly,
-    monthly,
-    currentStreak,
-    longestStreak,
-    lifetimeCompletions,
-    bestDay,
-    missedDayInsight,
-    habitComparison
-  });
+  if (!(await repos.excused.remove(user.id, excusedId))) {
+    res.status(404).json({ message: "Excused range not found." });
+    return;
+  }
+  res.json({ success: true });
 });
 
 app.get("/api/checklist", async (req, res) => {
@@ -946,28 +1160,37 @@ app.get("/api/checklist", async (req, res) => {
   }
   const date = String(req.query.date ?? "").trim();
 
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+  if (!isISODate(date)) {
     res.status(400).json({ message: "date query must be YYYY-MM-DD." });
     return;
   }
+  const categoryFilter = parseCategoryInput(req.query.category);
+  if ("error" in categoryFilter) {
+    res.status(400).json({ message: categoryFilter.error });
+    return;
+  }
 
-  const rows = await all<{
-    habitId: number;
-    name: string;
-    completed: number | null;
-  }>(
-    `SELECT h.id AS "habitId", h.name, c.completed
-     FROM habits h
-     LEFT JOIN checkins c
-       ON h.id = c.habit_id AND c.date = ?
-     WHERE h.user_id = ?
-       AND h.created_at <= ?
-       AND (h.deleted_on IS NULL OR h.deleted_on > ?)
-     ORDER BY h.id ASC`,
-    [date, user.id, date, date]
-  );
+  const rows = await repos.habits.listWithCheckinOn(user.id, date);
+  await withExcusedRanges(user.id, rows);
 
-  res.json(rows.map((row) => ({ ...row, completed: Boolean(row.completed) })));
+  res.json(
+    filterByCategory(rows, categoryFilter.category)
+      .filter((row) => isHabitDueOnDate(row, date))
+      .map((row) => ({
+        habitId: row.id,
+        name: row.name,
+        completed: getHabitPolarity(row) === "quit" ? row.completed !== 0 : Boolean(row.completed),
+        schedule: getHabitSchedule(row),
+        polarity: getHabitPolarity(row),
+        excused: isHabitExcusedOnDate(row, date),
+        value: row.value ?? null,
+        unit: row.unit ?? null,
+        dailyTarget: row.daily_target ?? null,
+        note: row.note ?? null,
+        category: row.category ?? null,
+        color: row.color ?? null
+      }))
+  );
 });
 
 app.put("/api/checklist/:habitId", async (req, res) => {
@@ -978,44 +1201,494 @@ app.put("/api/checklist/:habitId", async (req, res) => {
   }
   const habitId = Number(req.params.habitId);
   const date = String(req.body?.date ?? "").trim();
-  const completed = Boolean(req.body?.completed);
-  const today = toISODate(new Date());
+  const hasValue = req.body?.value !== undefined && req.body?.value !== null;
+  const value = Number(req.body?.value);
+  const today = todayInTimeZone(user.timeZone);
 
   if (!Number.isInteger(habitId) || habitId <= 0) {
     res.status(400).json({ message: "Invalid habit id." });
     return;
   }
 
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+  if (!isISODate(date)) {
     res.status(400).json({ message: "date must be YYYY-MM-DD." });
     return;
   }
 
+  if (hasValue && (!Number.isFinite(value) || value < 0)) {
+    res.status(400).json({ message: "value must be a non-negative number." });
+    return;
+  }
+
   if (date > today) {
     res.status(400).json({ message: "You cannot update checklist for future dates." });
     return;
   }
 
-  const habit = await get<HabitRow>(
-    "SELECT id FROM habits WHERE id = ? AND user_id = ? AND created_at <= ? AND (deleted_on IS NULL OR deleted_on > ?)",
-    [habitId, user.id, date, date]
-  );
-  if (!habit) {
+  const habit = await repos.habits.findExistingOn(user.id, habitId, date);
+  if (!habit || !isHabitActiveOnDate(habit, date)) {
+    res.status(404).json({ message: "Habit not found." });
+    return;
+  }
+
+  const { completed, value: storedValue } = resolveCheckin(habit, Boolean(req.body?.completed), hasValue ? value : null);
+
+  await inTransaction(async (tx) => {
+    await tx.checkins.upsert(habitId, date, completed, storedValue);
+    await refreshRollups(tx, user.id, date, date);
+  });
+
+  res.json({ success: true, completed, value: storedValue });
+});
+
+app.post("/api/checkins/batch", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const parsed = parseBatchInput(req.body);
+  if ("error" in parsed) {
+    res.status(400).json({ message: parsed.error });
+    return;
+  }
+  const today = todayInTimeZone(user.timeZone);
+
+  // All or nothing: one invalid entry rejects the whole batch.
+  const checked = await inTransaction(async (tx) => {
+    const result = checkBatchEntries(parsed.entries, await tx.habits.listAll(user.id), today);
+    if (result.invalidCount > 0) return result;
+    for (const entry of result.entries) {
+      await tx.checkins.upsert(entry.habitId, entry.date, entry.completed, entry.value);
+    }
+    const dates = result.entries.map((entry) => entry.date).sort();
+    await refreshRollups(tx, user.id, dates[0], dates[dates.length - 1]);
+    return result;
+  });
+
+  if (checked.invalidCount > 0) {
+    res.status(400).json({
+      message: `No checkins were saved: ${checked.invalidCount} of ${checked.results.length} entries are invalid.`,
+      results: checked.results
+    });
+    return;
+  }
+  res.json({
+    success: true,
+    applied: checked.entries.length,
+    results: checked.results.map((result) => ({ ...result, status: "applied" }))
+  });
+});
+
+app.put("/api/checklist/:habitId/note", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const habitId = Number(req.params.habitId);
+  const date = String(req.body?.date ?? "").trim();
+  const note = String(req.body?.note ?? "").trim();
+
+  if (!Number.isInteger(habitId) || habitId <= 0) {
+    res.status(400).json({ message: "Invalid habit id." });
+    return;
+  }
+
+  if (!isISODate(date)) {
+    res.status(400).json({ message: "date must be YYYY-MM-DD." });
+    return;
+  }
+
+  if (note.length > MAX_CHECKIN_NOTE_LENGTH) {
+    res.status(400).json({ message: `note must be at most ${MAX_CHECKIN_NOTE_LENGTH} characters.` });
+    return;
+  }
+
+  if (date > todayInTimeZone(user.timeZone)) {
+    res.status(400).json({ message: "You cannot add notes for future dates." });
+    return;
+  }
+
+  const habit = await repos.habits.findExistingOn(user.id, habitId, date);
+  if (!habit || !isHabitActiveOnDate(habit, date)) {
     res.status(404).json({ message: "Habit not found." });
     return;
   }
 
-  await run(
-    `INSERT INTO checkins (habit_id, date, completed)
-     VALUES (?, ?, ?)
-     ON CONFLICT(habit_id, date)
-     DO UPDATE SET completed = excluded.completed`,
-    [habitId, date, completed ? 1 : 0]
+  // A note on its own must not change the outcome: quit habits stay clean, others stay not done.
+  await repos.checkins.upsertNote(habitId, date, note || null, getHabitPolarity(habit) === "quit");
+
+  res.json({ success: true, note: note || null });
+});
+
+app.get("/api/journal", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const date = String(req.query.date ?? "").trim();
+
+  if (!isISODate(date)) {
+    res.status(400).json({ message: "date query must be YYYY-MM-DD." });
+    return;
+  }
+
+  const entry = await repos.journal.find(user.id, date);
+  res.json({ date, body: entry?.body ?? "" });
+});
+
+app.put("/api/journal", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const date = String(req.body?.date ?? "").trim();
+  const body = String(req.body?.body ?? "").trim();
+
+  if (!isISODate(date)) {
+    res.status(400).json({ message: "date must be YYYY-MM-DD." });
+    return;
+  }
+
+  if (body.length > MAX_JOURNAL_LENGTH) {
+    res.status(400).json({ message: `Journal entry must be at most ${MAX_JOURNAL_LENGTH} characters.` });
+    return;
+  }
+
+  if (date > todayInTimeZone(user.timeZone)) {
+    res.status(400).json({ message: "You cannot write journal entries for future dates." });
+    return;
+  }
+
+  if (!body) {
+    await repos.journal.remove(user.id, date);
+  } else {
+    await repos.journal.save(user.id, date, body);
+  }
+
+  res.json({ date, body });
+});
+
+app.get("/api/notes/search", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const query = String(req.query.q ?? "").trim();
+  const start = String(req.query.start ?? "").trim();
+  const end = String(req.query.end ?? "").trim();
+
+  if (!isISODate(start) || !isISODate(end)) {
+    res.status(400).json({ message: "start and end must be YYYY-MM-DD." });
+    return;
+  }
+
+  if (end < start) {
+    res.status(400).json({ message: "end must not be before start." });
+    return;
+  }
+
+  const rows = await repos.journal.searchNotes(user.id, query, start, end);
+
+  res.json(
+    rows.map((row) => ({
+      type: row.habit_id === null ? "journal" : "checkin",
+      date: row.date,
+      habitId: row.habit_id,
+      habitName: row.habit_name,
+      note: row.note
+    }))
   );
+});
 
+app.get("/api/export", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const format = String(req.query.format ?? "json");
+  if (format !== "json" && format !== "csv") {
+    res.status(400).json({ message: "format must be json or csv." });
+    return;
+  }
+
+  const backup = buildBackup(await loadAccountData(repos, user.id), new Date().toISOString());
+  const filename = `leetbit-backup-${todayInTimeZone(user.timeZone)}.${format}`;
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  if (format === "csv") {
+    res.type("text/csv").send(backupToCsv(backup));
+    return;
+  }
+  res.json(backup);
+});
+
+app.post("/api/import", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const today = todayInTimeZone(user.timeZone);
+  const parsed = parseImportInput(req.body, today);
+  if ("error" in parsed) {
+    res.status(400).json({ message: parsed.error });
+    return;
+  }
+
+  if (parsed.dryRun) {
+    const plan = planImport(parsed.backup, await loadAccountData(repos, user.id), parsed.mode, today);
+    res.json({ dryRun: true, preview: plan.preview });
+    return;
+  }
+
+  const preview = await inTransaction(async (tx) => {
+    const plan = planImport(parsed.backup, await loadAccountData(tx, user.id), parsed.mode, today);
+    await applyImport(tx, user.id, plan);
+    return plan.preview;
+  });
+  res.json({ success: true, preview });
+});
+
+app.post("/api/import/external/inspect", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const source = parseExternalSource(req.body);
+  if ("error" in source) {
+    res.status(400).json({ message: source.error });
+    return;
+  }
+
+  const result = inspectExternal(source.format, source.text, todayInTimeZone(user.timeZone));
+  if ("error" in result) {
+    res.status(400).json({ message: result.error });
+    return;
+  }
+  res.json(result.inspection);
+});
+
+app.post("/api/import/external", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const source = parseExternalSource(req.body);
+  if ("error" in source) {
+    res.status(400).json({ message: source.error });
+    return;
+  }
+  let mapping: ColumnMapping | null = null;
+  if (source.format === "generic") {
+    const parsedMapping = parseMappingInput(req.body?.mapping, csvColumns(source.text));
+    if ("error" in parsedMapping) {
+      res.status(400).json({ message: parsedMapping.error });
+      return;
+    }
+    mapping = parsedMapping.mapping;
+  }
+
+  const today = todayInTimeZone(user.timeZone);
+  const read = readExternalHistory(source.format, source.text, mapping, today);
+  if ("error" in read) {
+    res.status(400).json({ message: read.error });
+    return;
+  }
+  if (read.history.rows.length === 0) {
+    res.status(400).json({ message: "No checkins were found in the file.", warnings: read.history.warnings });
+    return;
+  }
+  const backup = historyToBackup(read.history);
+  const details = { rows: read.history.rows.length, skipped: read.history.skipped, warnings: read.history.warnings };
+
+  if (req.body?.dryRun === true) {
+    const plan = planImport(backup, await loadAccountData(repos, user.id), "merge", today, { historyOnly: true });
+    res.json({ dryRun: true, ...details, preview: plan.preview });
+    return;
+  }
+
+  const preview = await inTransaction(async (tx) => {
+    const plan = planImport(backup, await loadAccountData(tx, user.id), "merge", today, { historyOnly: true });
+    await applyImport(tx, user.id, plan);
+    return plan.preview;
+  });
+  res.json({ success: true, ...details, preview });
+});
+
+app.get("/api/calendar/token", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const row = await repos.tokens.find(user.id, "calendar");
+  res.json({ token: row?.token ?? null, createdAt: row?.created_at ?? null });
+});
+
+app.post("/api/calendar/token", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  // Creating a new token revokes the previous feed URL.
+  const token = createAccessToken();
+  const createdAt = new Date().toISOString();
+  await repos.tokens.replace(user.id, "calendar", token, createdAt);
+  res.status(201).json({ token, createdAt });
+});
+
+app.delete("/api/calendar/token", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  await repos.tokens.remove(user.id, "calendar");
   res.json({ success: true });
 });
 
+app.get("/api/calendar/:token.ics", async (req, res) => {
+  const feed = await repos.tokens.findByToken(String(req.params.token), "calendar");
+  const owner = feed ? await repos.users.findById(feed.user_id) : undefined;
+  if (!feed || !owner) {
+    res.status(404).json({ message: "Calendar feed not found." });
+    return;
+  }
+
+  const habits = await repos.habits.listAll(owner.id);
+  const checkins = await repos.checkins.listAllForUser(owner.id);
+  res.setHeader("Cache-Control", "private, max-age=300");
+  res.type("text/calendar; charset=utf-8").send(buildCalendarFeed(habits, checkins, todayInTimeZone(owner.time_zone)));
+});
+
+app.get("/api/badge/token", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  const row = await repos.tokens.find(user.id, "badge");
+  res.json({ token: row?.token ?? null, createdAt: row?.created_at ?? null });
+});
+
+app.post("/api/badge/token", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  // Creating a new token breaks every badge embedded with the previous one.
+  const token = createAccessToken();
+  const createdAt = new Date().toISOString();
+  await repos.tokens.replace(user.id, "badge", token, createdAt);
+  res.status(201).json({ token, createdAt });
+});
+
+app.delete("/api/badge/token", async (req, res) => {
+  const user = getAuthUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized." });
+    return;
+  }
+  await repos.tokens.remove(user.id, "badge");
+  res.json({ success: true });
+});
+
+app.get("/api/badge/:token.svg", async (req, res) => {
+  const share = await repos.tokens.findByToken(String(req.params.token), "badge");
+  const owner = share ? await repos.users.findById(share.user_id) : undefined;
+  if (!share || !owner) {
+    res.status(404).json({ message: "Badge not found." });
+    return;
+  }
+
+  const today = todayInTimeZone(owner.time_zone);
+  const yearQuery = typeof req.query.year === "string" ? req.query.year : "";
+  const startQuery = typeof req.query.start === "string" ? req.query.start : "";
+  const endQuery = typeof req.query.end === "string" ? req.query.end : "";
+  // Without a year or range the badge shows the year up to today, like a contributions graph.
+  let start = addDaysISO(today, -(BADGE_MAX_DAYS - 2));
+  let end = today;
+  if (startQuery || endQuery) {
+    if (!isISODate(startQuery) || !isISODate(endQuery)) {
+      res.status(400).json({ message: "start and end must be YYYY-MM-DD." });
+      return;
+    }
+    if (endQuery < startQuery || endQuery > addDaysISO(startQuery, BADGE_MAX_DAYS - 1)) {
+      res.status(400).json({ message: `start must come before end, at most ${BADGE_MAX_DAYS} days apart.` });
+      return;
+    }
+    start = startQuery;
+    end = endQuery;
+  } else if (yearQuery) {
+    const year = Number(yearQuery);
+    if (!Number.isInteger(year) || year < 1970 || year > 2100) {
+      res.status(400).json({ message: "Invalid year." });
+      return;
+    }
+    start = `${year}-01-01`;
+    end = `${year}-12-31`;
+  }
+  const theme = req.query.theme ?? "light";
+  if (theme !== "light" && theme !== "dark") {
+    res.status(400).json({ message: "theme must be light or dark." });
+    return;
+  }
+
+  const lastDay = end < today ? end : today;
+  const days = new Map<string, BadgeDay>();
+  const excusedRanges = await repos.excused.listForUser(owner.id);
+  let title = "All habits";
+  let target: number | null = null;
+  let habitId: number | null = null;
+  if (req.query.habit !== undefined) {
+    habitId = Number(req.query.habit);
+    const habit = Number.isInteger(habitId) && habitId > 0 ? await repos.habits.findById(owner.id, habitId) : undefined;
+    if (!habit) {
+      res.status(404).json({ message: "Habit not found." });
+      return;
+    }
+    title = habit.name;
+    target = habit.daily_target ?? null;
+    const rows = await repos.checkins.listForHabit(habit.id, { start, end: lastDay });
+    const completions = new Map(rows.map((row) => [row.date, row.completed === 1]));
+    const values = new Map(rows.map((row) => [row.date, row.value ?? null]));
+    // Quit habits count their clean (row-less) days, as in the habit's own heatmap.
+    const counts = getHabitPolarity(habit) === "quit" ? isHabitActiveOnDate : isHabitDueOnDate;
+    for (let iso = start; iso <= lastDay; iso = addDaysISO(iso, 1)) {
+      if (!counts(habit, iso)) continue;
+      days.set(iso, { count: isHabitDoneOnDate(habit, completions, iso) ? 1 : 0, value: values.get(iso) ?? null });
+    }
+  } else if (start <= lastDay) {
+    await ensureRollups(owner.id, today);
+    for (const row of await repos.rollups.listForUser(owner.id, start, lastDay)) {
+      days.set(row.date, { count: row.completed, value: null });
+    }
+  }
+
+  const svg = renderHeatmapBadge({
+    title,
+    start,
+    end,
+    days,
+    target,
+    excused: excusedRanges
+      .filter((range) => range.habit_id === null || range.habit_id === habitId)
+      .map((range) => ({ start: range.start_date, end: range.end_date })),
+    theme
+  });
+  res.setHeader("Cache-Control", "public, max-age=3600");
+  res.type("image/svg+xml; charset=utf-8").send(svg);
+});
+
 async function start() {
   await initDb();
   app.listen(port, () => {
@@ -1024,4 +1697,8 @@ async function start() {
   });
 }
 
-void start();
+start().catch((error: Error) => {
+  // eslint-disable-next-line no-console
+  console.error(`Failed to start: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,185 @@
+import { addDaysISO, daysBetweenISO, isISODate } from "./dates.js";
+import { getHabitPolarity, type HabitRow } from "./habits.js";
+import type { HabitLedger } from "./summary.js";
+
+const DEFAULT_WINDOW_DAYS = 90;
+const MAX_WINDOW_DAYS = 3660;
+/** Fewer shared days than this make a rate too noisy to report. */
+const MIN_SAMPLE_DAYS = 7;
+const MAX_ITEMS = 5;
+
+export interface InsightRange {
+  start: string;
+  end: string;
+}
+
+export interface HabitPairInsight {
+  habitId: number;
+  habitName: string;
+  otherHabitId: number;
+  otherHabitName: string;
+  sharedDays: number;
+  bothDone: number;
+  /** Phi coefficient of the two habits' done/missed days, from -1 to 1. */
+  correlation: number;
+}
+
+export interface ConditionalInsight {
+  habitId: number;
+  habitName: string;
+  otherHabitId: number;
+  otherHabitName: string;
+  /** Days the condition on `habitId` held while the other habit had an outcome. */
+  days: number;
+  rate: number;
+  baseline: number;
+  text: string;
+}
+
+export interface HabitInsights {
+  range: InsightRange;
+  habitsCompared: number;
+  together: HabitPairInsight[];
+  missPredictors: ConditionalInsight[];
+  conditionalRates: ConditionalInsight[];
+}
+
+/** Defaults to the 90 days before today; today is left out since it can still be completed. */
+export function parseInsightRangeInput(
+  query: { start?: unknown; end?: unknown },
+  todayISO: string
+): { range: InsightRange } | { error: string } {
+  const yesterday = addDaysISO(todayISO, -1);
+  if (query.start === undefined && query.end === undefined) {
+    return { range: { start: addDaysISO(yesterday, 1 - DEFAULT_WINDOW_DAYS), end: yesterday } };
+  }
+  const start = String(query.start ?? "").trim();
+  let end = String(query.end ?? "").trim();
+  if (!isISODate(start) || !isISODate(end)) {
+    return { error: "start and end must be YYYY-MM-DD." };
+  }
+  if (end < start) {
+    return { error: "end must not be before start." };
+  }
+  if (daysBetweenISO(start, end) >= MAX_WINDOW_DAYS) {
+    return { error: `An insights range can cover at most ${MAX_WINDOW_DAYS} days.` };
+  }
+  if (end > yesterday) end = yesterday;
+  return { range: { start, end } };
+}
+
+function percent(part: number, whole: number) {
+  return whole === 0 ? 0 : Number(((part / whole) * 100).toFixed(1));
+}
+
+/** Quit habits are "done" on clean days, so their sentences read differently. */
+function phrase(habit: HabitRow, done: boolean) {
+  if (getHabitPolarity(habit) === "quit") return done ? `stay clean of ${habit.name}` : `slip on ${habit.name}`;
+  return done ? `complete ${habit.name}` : `miss ${habit.name}`;
+}
+
+/**
+ * One entry per day of the range: true when done, false when missed and null when the habit
+ * was not active (see isHabitActiveOnDate), not due or excused.
+ */
+function outcomesFor(ledger: HabitLedger, range: InsightRange) {
+  const outcomes: Array<boolean | null> = [];
+  for (let iso = range.start; iso <= range.end; iso = addDaysISO(iso, 1)) {
+    const status = ledger.isActiveOn(iso) ? ledger.statusOn(iso) : "skip";
+    outcomes.push(status === "skip" ? null : status === "done");
+  }
+  return outcomes;
+}
+
+/** Counts over the days both habits had an outcome, keyed by `a`/`b` done (1) or missed (0). */
+function crossTab(a: Array<boolean | null>, b: Array<boolean | null>) {
+  const counts = { n11: 0, n10: 0, n01: 0, n00: 0 };
+  for (let i = 0; i < a.length; i += 1) {
+    if (a[i] === null || b[i] === null) continue;
+    if (a[i] && b[i]) counts.n11 += 1;
+    else if (a[i]) counts.n10 += 1;
+    else if (b[i]) counts.n01 += 1;
+    else counts.n00 += 1;
+  }
+  return counts;
+}
+
+function phi({ n11, n10, n01, n00 }: ReturnType<typeof crossTab>) {
+  const denominator = Math.sqrt((n11 + n10) * (n01 + n00) * (n11 + n01) * (n10 + n00));
+  return denominator === 0 ? 0 : Number(((n11 * n00 - n10 * n01) / denominator).toFixed(2));
+}
+
+/**
+ * Co-occurrence across habits over `range`. Pairs only count days on which both habits were
+ * due, so schedules and archived stretches never read as misses. With `focusHabitId` only pairs
+ * involving that habit are reported.
+ */
+export function computeInsights(ledgers: HabitLedger[], range: InsightRange, focusHabitId?: number): HabitInsights {
+  const outcomes = new Map(ledgers.map((ledger) => [ledger.habit.id, outcomesFor(ledger, range)]));
+  const together: HabitPairInsight[] = [];
+  const missPredictors: ConditionalInsight[] = [];
+  const conditionalRates: ConditionalInsight[] = [];
+
+  for (const a of ledgers) {
+    for (const b of ledgers) {
+      if (a === b) continue;
+      if (focusHabitId !== undefined && a.habit.id !== focusHabitId && b.habit.id !== focusHabitId) continue;
+      const counts = crossTab(outcomes.get(a.habit.id)!, outcomes.get(b.habit.id)!);
+      const aDone = counts.n11 + counts.n10;
+      const aMissed = counts.n01 + counts.n00;
+      const names = {
+        habitId: a.habit.id,
+        habitName: a.habit.name,
+        otherHabitId: b.habit.id,
+        otherHabitName: b.habit.name
+      };
+
+      if (a.habit.id < b.habit.id && aDone + aMissed >= MIN_SAMPLE_DAYS) {
+        together.push({ ...names, sharedDays: aDone + aMissed, bothDone: counts.n11, correlation: phi(counts) });
+      }
+      if (aDone >= MIN_SAMPLE_DAYS) {
+        const rate = percent(counts.n11, aDone);
+        const baseline = percent(counts.n11 + counts.n01, aDone + aMissed);
+        conditionalRates.push({
+          ...names,
+          days: aDone,
+          rate,
+          baseline,
+          text:
+            `When you ${phrase(a.habit, true)}, you ${phrase(b.habit, true)} ` +
+            `${rate}% of the time (${baseline}% overall).`
+        });
+      }
+      if (aMissed >= MIN_SAMPLE_DAYS && aDone > 0) {
+        const rate = percent(counts.n00, aMissed);
+        const baseline = percent(counts.n10, aDone);
+        if (rate > baseline) {
+          missPredictors.push({
+            ...names,
+            days: aMissed,
+            rate,
+            baseline,
+            text:
+              `When you ${phrase(a.habit, false)}, you also ${phrase(b.habit, false)} ` +
+              `${rate}% of the time (${baseline}% otherwise).`
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    range,
+    habitsCompared: ledgers.length,
+    together: together
+      .filter((pair) => pair.correlation > 0)
+      .sort((x, y) => y.correlation - x.correlation || y.sharedDays - x.sharedDays)
+      .slice(0, MAX_ITEMS),
+    missPredictors: missPredictors
+      .sort((x, y) => y.rate - y.baseline - (x.rate - x.baseline) || y.days - x.days)
+      .slice(0, MAX_ITEMS),
+    conditionalRates: conditionalRates
+      .sort((x, y) => y.rate - y.baseline - (x.rate - x.baseline) || y.rate - x.rate)
+      .slice(0, MAX_ITEMS)
+  };
+}
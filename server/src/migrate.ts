@@ -0,0 +1,36 @@
+/* eslint-disable no-console */
+import { initDb, listPendingMigrations, migrationStatus } from "./db.js";
+
+// Usage: npm run migrate [-- --dry-run | --status]
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--status")) {
+    const status = await migrationStatus();
+    console.log(`Database version: ${status.databaseVersion} (code knows ${status.codeVersion})`);
+    for (const row of status.applied) {
+      console.log(`  applied  ${row.version} ${row.name} at ${row.applied_at}`);
+    }
+    for (const migration of status.pending) {
+      console.log(`  pending  ${migration.version} ${migration.name}`);
+    }
+    return;
+  }
+
+  const dryRun = args.includes("--dry-run");
+  const migrations = dryRun ? await listPendingMigrations() : await initDb();
+  if (migrations.length === 0) {
+    console.log("Database schema is up to date.");
+    return;
+  }
+  for (const migration of migrations) {
+    console.log(`${dryRun ? "Would apply" : "Applied"} ${migration.version} ${migration.name}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error: Error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
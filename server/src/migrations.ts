@@ -0,0 +1,193 @@
+import type { SqlDialect, SqlExecutor, StorageDriver } from "./storage/types.js";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SqlExecutor, dialect: SqlDialect) => Promise<void>;
+}
+
+// The schema initDb used to rebuild on every boot. Everything is IF NOT EXISTS, so this also
+// adopts databases that were created before migrations were tracked.
+async function baseline(db: SqlExecutor, dialect: SqlDialect) {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (CURRENT_DATE::text)
+    )
+  `);
+
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS habits (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL,
+      user_id INTEGER,
+      created_at TEXT NOT NULL DEFAULT (CURRENT_DATE::text),
+      deleted_on TEXT,
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run("ALTER TABLE users ADD COLUMN IF NOT EXISTS time_zone TEXT NOT NULL DEFAULT 'UTC'");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS deleted_on TEXT");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS user_id INTEGER");
+  if (dialect === "postgres") {
+    // Databases created before per-user habits still carry a global UNIQUE(name).
+    await db.run("ALTER TABLE habits DROP CONSTRAINT IF EXISTS habits_name_key");
+  }
+  await db.run(
+    "CREATE UNIQUE INDEX IF NOT EXISTS habits_user_name_unique ON habits (user_id, lower(name))"
+  );
+  await db.run("CREATE INDEX IF NOT EXISTS habits_user_idx ON habits (user_id)");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS schedule_type TEXT NOT NULL DEFAULT 'daily'");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS schedule_weekdays TEXT");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS schedule_per_week INTEGER");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS schedule_every_days INTEGER");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS unit TEXT");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS daily_target REAL");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS polarity TEXT NOT NULL DEFAULT 'build'");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS inactive_ranges TEXT");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS category TEXT");
+  await db.run("ALTER TABLE habits ADD COLUMN IF NOT EXISTS color TEXT");
+
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS checkins (
+      id SERIAL PRIMARY KEY,
+      habit_id INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      completed INTEGER NOT NULL DEFAULT 0,
+      UNIQUE(habit_id, date),
+      FOREIGN KEY(habit_id) REFERENCES habits(id) ON DELETE CASCADE
+    )
+  `);
+  await db.run("CREATE INDEX IF NOT EXISTS checkins_habit_date_idx ON checkins (habit_id, date)");
+  await db.run("ALTER TABLE checkins ADD COLUMN IF NOT EXISTS value REAL");
+  await db.run("ALTER TABLE checkins ADD COLUMN IF NOT EXISTS note TEXT");
+
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS journal_entries (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      body TEXT NOT NULL,
+      UNIQUE(user_id, date),
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS excused_ranges (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      habit_id INTEGER,
+      start_date TEXT NOT NULL,
+      end_date TEXT NOT NULL,
+      reason TEXT,
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY(habit_id) REFERENCES habits(id) ON DELETE CASCADE
+    )
+  `);
+  await db.run("CREATE INDEX IF NOT EXISTS excused_ranges_user_idx ON excused_ranges (user_id)");
+}
+
+// Per-user counts of active habits and completed due habits per day, kept in step by ./rollups.ts.
+async function dailyRollups(db: SqlExecutor) {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS daily_rollups (
+      user_id INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      active_habits INTEGER NOT NULL DEFAULT 0,
+      completed INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY(user_id, date),
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+}
+
+// Secrets behind unauthenticated URLs such as calendar feeds: one per user and purpose, revocable on their own.
+async function accessTokens(db: SqlExecutor) {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS access_tokens (
+      token TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      purpose TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      UNIQUE(user_id, purpose),
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+}
+
+/** Ordered by version. Never edit an applied migration; add a new one instead. */
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: "baseline", up: baseline },
+  { version: 2, name: "daily_rollups", up: dailyRollups },
+  { version: 3, name: "access_tokens", up: accessTokens }
+];
+
+interface AppliedMigrationRow {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export class SchemaTooNewError extends Error {
+  constructor(databaseVersion: number, codeVersion: number) {
+    super(
+      `Database schema is at version ${databaseVersion} but this server only knows up to ${codeVersion}. ` +
+        "Upgrade the server before starting it against this database."
+    );
+    this.name = "SchemaTooNewError";
+  }
+}
+
+async function ensureMigrationsTable(db: SqlExecutor) {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+export async function getMigrationStatus(db: SqlExecutor) {
+  await ensureMigrationsTable(db);
+  const applied = await db.all<AppliedMigrationRow>(
+    "SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC"
+  );
+  const appliedVersions = new Set(applied.map((row) => Number(row.version)));
+  const databaseVersion = applied.reduce((max, row) => Math.max(max, Number(row.version)), 0);
+  const codeVersion = MIGRATIONS.reduce((max, migration) => Math.max(max, migration.version), 0);
+  return {
+    applied,
+    pending: MIGRATIONS.filter((migration) => !appliedVersions.has(migration.version)),
+    databaseVersion,
+    codeVersion
+  };
+}
+
+/**
+ * Applies pending migrations in version order, each in its own transaction.
+ * With `dryRun` nothing is written and the pending list is only returned.
+ */
+export async function migrate(driver: StorageDriver, options: { dryRun?: boolean } = {}) {
+  const status = await getMigrationStatus(driver);
+  if (status.databaseVersion > status.codeVersion) {
+    throw new SchemaTooNewError(status.databaseVersion, status.codeVersion);
+  }
+  if (options.dryRun) return status.pending;
+
+  for (const migration of status.pending) {
+    await driver.transaction(async (tx) => {
+      await migration.up(tx, driver.dialect);
+      await tx.run("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)", [
+        migration.version,
+        migration.name,
+        new Date().toISOString()
+      ]);
+    });
+  }
+  return status.pending;
+}
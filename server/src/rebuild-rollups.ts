@@ -0,0 +1,51 @@
+/* eslint-disable no-console */
+import { initDb } from "./db.js";
+import { todayInTimeZone } from "./dates.js";
+import { repositories } from "./repositories/index.js";
+import { checkRollups, rebuildRollups } from "./rollups.js";
+
+// Usage: npm run rollups [-- --check] [-- --user <id>]
+async function main() {
+  const args = process.argv.slice(2);
+  const userArg = args.indexOf("--user");
+  const repos = repositories();
+  await initDb();
+
+  const userIds = userArg === -1 ? await repos.users.listIds() : [Number(args[userArg + 1])];
+  if (userIds.some((userId) => !Number.isInteger(userId) || userId <= 0)) {
+    throw new Error("--user needs a numeric user id.");
+  }
+
+  if (args.includes("--check")) {
+    let inconsistent = 0;
+    for (const userId of userIds) {
+      const mismatches = await checkRollups(repos, userId);
+      if (mismatches.length === 0) continue;
+      inconsistent += 1;
+      console.log(`User ${userId}: ${mismatches.length} day(s) differ from checkins`);
+      for (const { date, stored, expected } of mismatches.slice(0, 10)) {
+        const storedText = stored ? `${stored.completed}/${stored.activeHabits}` : "missing";
+        console.log(`  ${date} stored ${storedText}, expected ${expected.completed}/${expected.activeHabits}`);
+      }
+    }
+    console.log(inconsistent === 0 ? "Rollups match checkins." : `${inconsistent} user(s) need a rebuild.`);
+    if (inconsistent > 0) process.exitCode = 1;
+    return;
+  }
+
+  for (const userId of userIds) {
+    const user = await repos.users.findById(userId);
+    if (!user) {
+      throw new Error(`User ${userId} not found.`);
+    }
+    const days = await rebuildRollups(userId, todayInTimeZone(user.time_zone));
+    console.log(`Rebuilt ${days} day(s) for user ${userId}`);
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error: Error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,139 @@
+import type { SqlExecutor } from "../storage/types.js";
+
+export interface CheckinRow {
+  date: string;
+  completed: number;
+  value?: number | null;
+  note?: string | null;
+}
+
+export interface HabitDateRow {
+  habit_id: number;
+  date: string;
+  completed: number;
+  value: number | null;
+}
+
+export interface HabitCheckinRow extends HabitDateRow {
+  note: string | null;
+}
+
+export function checkinsRepository(db: SqlExecutor) {
+  return {
+    listForHabit(habitId: number, range?: { start: string; end: string }) {
+      if (!range) {
+        return db.all<CheckinRow>("SELECT date, completed, value, note FROM checkins WHERE habit_id = ?", [habitId]);
+      }
+      return db.all<CheckinRow>(
+        "SELECT date, completed, value, note FROM checkins WHERE habit_id = ? AND date BETWEEN ? AND ?",
+        [habitId, range.start, range.end]
+      );
+    },
+
+    /** Checkins across all of the user's habits between `start` and `end` (inclusive). */
+    listForUser(userId: number, start: string, end: string) {
+      return db.all<HabitDateRow>(
+        `SELECT c.habit_id, c.date, c.completed, c.value
+         FROM checkins c
+         JOIN habits h ON h.id = c.habit_id
+         WHERE c.date BETWEEN ? AND ?
+           AND h.user_id = ?`,
+        [start, end, userId]
+      );
+    },
+
+    /** Every checkin of the user's habits, notes included, for exports. */
+    listAllForUser(userId: number) {
+      return db.all<HabitCheckinRow>(
+        `SELECT c.habit_id, c.date, c.completed, c.value, c.note
+         FROM checkins c
+         JOIN habits h ON h.id = c.habit_id
+         WHERE h.user_id = ?
+         ORDER BY c.habit_id ASC, c.date ASC`,
+        [userId]
+      );
+    },
+
+    /** Years with at least one checkin made while its habit was active. */
+    async listYearsForUser(userId: number) {
+      const rows = await db.all<{ year: string }>(
+        `SELECT DISTINCT substr(c.date, 1, 4) AS year
+         FROM checkins c
+         JOIN habits h ON h.id = c.habit_id
+         WHERE h.user_id = ?
+           AND c.date BETWEEN '0001-01-01' AND '9999-12-31'
+           AND h.created_at <= c.date
+           AND (h.deleted_on IS NULL OR h.deleted_on > c.date)
+         ORDER BY year DESC`,
+        [userId]
+      );
+      return rows.map((row) => Number(row.year)).filter((year) => Number.isInteger(year));
+    },
+
+    async listYearsForHabit(userId: number, habitId: number) {
+      const rows = await db.all<{ year: string }>(
+        `SELECT DISTINCT substr(date, 1, 4) AS year
+         FROM checkins
+         WHERE habit_id = ?
+           AND date >= (SELECT created_at FROM habits WHERE id = ? AND user_id = ?)
+           AND (
+             (SELECT deleted_on FROM habits WHERE id = ? AND user_id = ?) IS NULL
+             OR date < (SELECT deleted_on FROM habits WHERE id = ? AND user_id = ?)
+           )
+         ORDER BY year DESC`,
+        [habitId, habitId, userId, habitId, userId, habitId, userId]
+      );
+      return rows.map((row) => Number(row.year)).filter((year) => Number.isInteger(year));
+    },
+
+    async upsert(habitId: number, date: string, completed: boolean, value: number | null) {
+      await db.run(
+        `INSERT INTO checkins (habit_id, date, completed, value)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(habit_id, date)
+         DO UPDATE SET completed = excluded.completed, value = excluded.value`,
+        [habitId, date, completed ? 1 : 0, value]
+      );
+    },
+
+    /** Writes the whole row, note included, as an import does. */
+    async put(habitId: number, date: string, completed: boolean, value: number | null, note: string | null) {
+      await db.run(
+        `INSERT INTO checkins (habit_id, date, completed, value, note)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(habit_id, date)
+         DO UPDATE SET completed = excluded.completed, value = excluded.value, note = excluded.note`,
+        [habitId, date, completed ? 1 : 0, value, note]
+      );
+    },
+
+    /** Sets the note, creating the row with `completedIfNew` when the day has no checkin yet. */
+    async upsertNote(habitId: number, date: string, note: string | null, completedIfNew: boolean) {
+      await db.run(
+        `INSERT INTO checkins (habit_id, date, completed, note)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(habit_id, date)
+         DO UPDATE SET note = excluded.note`,
+        [habitId, date, completedIfNew ? 1 : 0, note]
+      );
+    },
+
+    /** Re-derives `completed` from logged values after a habit's daily target changes. */
+    async recomputeCompletion(habitId: number, dailyTarget: number) {
+      await db.run(
+        `UPDATE checkins
+         SET completed = CASE WHEN value >= ? THEN 1 ELSE 0 END
+         WHERE habit_id = ? AND value IS NOT NULL`,
+        [dailyTarget, habitId]
+      );
+    },
+
+    async removeForHabit(habitId: number) {
+      await db.run("DELETE FROM checkins WHERE habit_id = ?", [habitId]);
+    },
+
+    async removeForUser(userId: number) {
+      await db.run("DELETE FROM checkins WHERE habit_id IN (SELECT id FROM habits WHERE user_id = ?)", [userId]);
+    }
+  };
+}
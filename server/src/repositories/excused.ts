@@ -0,0 +1,38 @@
+import type { ExcusedRange } from "../habits.js";
+import type { SqlExecutor } from "../storage/types.js";
+
+export function excusedRangesRepository(db: SqlExecutor) {
+  return {
+    listForUser(userId: number) {
+      return db.all<ExcusedRange>(
+        `SELECT id, habit_id, start_date, end_date, reason
+         FROM excused_ranges
+         WHERE user_id = ?
+         ORDER BY start_date DESC, id DESC`,
+        [userId]
+      );
+    },
+
+    async create(userId: number, range: Omit<ExcusedRange, "id" | "user_id">) {
+      const result = await db.run(
+        "INSERT INTO excused_ranges (user_id, habit_id, start_date, end_date, reason) VALUES (?, ?, ?, ?, ?) RETURNING id",
+        [userId, range.habit_id, range.start_date, range.end_date, range.reason ?? null]
+      );
+      return result.lastID;
+    },
+
+    /** Returns false when no range with that id belongs to the user. */
+    async remove(userId: number, excusedId: number) {
+      const result = await db.run("DELETE FROM excused_ranges WHERE id = ? AND user_id = ?", [excusedId, userId]);
+      return result.changes > 0;
+    },
+
+    async removeForHabit(habitId: number) {
+      await db.run("DELETE FROM excused_ranges WHERE habit_id = ?", [habitId]);
+    },
+
+    async removeForUser(userId: number) {
+      await db.run("DELETE FROM excused_ranges WHERE user_id = ?", [userId]);
+    }
+  };
+}
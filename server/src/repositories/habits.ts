@@ -0,0 +1,159 @@
+import { HABIT_COLUMNS, type HabitPolarity, type HabitRow, type HabitSchedule, scheduleColumnValues } from "../habits.js";
+import type { SqlExecutor } from "../storage/types.js";
+
+export interface HabitFields {
+  name: string;
+  createdAt: string;
+  schedule: HabitSchedule;
+  unit: string | null;
+  dailyTarget: number | null;
+  category: string | null;
+  color: string | null;
+}
+
+export type ChecklistRow = HabitRow & { completed: number | null; value: number | null; note: string | null };
+
+export function habitsRepository(db: SqlExecutor) {
+  return {
+    /** Every habit of the user, archived ones included. */
+    listAll(userId: number) {
+      return db.all<HabitRow>(`SELECT ${HABIT_COLUMNS} FROM habits WHERE user_id = ? ORDER BY id ASC`, [userId]);
+    },
+
+    listActive(userId: number) {
+      return db.all<HabitRow>(
+        `SELECT ${HABIT_COLUMNS} FROM habits WHERE user_id = ? AND deleted_on IS NULL ORDER BY id ASC`,
+        [userId]
+      );
+    },
+
+    listArchived(userId: number) {
+      return db.all<HabitRow>(
+        `SELECT ${HABIT_COLUMNS} FROM habits
+         WHERE user_id = ? AND deleted_on IS NOT NULL
+         ORDER BY deleted_on DESC, id ASC`,
+        [userId]
+      );
+    },
+
+    findById(userId: number, habitId: number) {
+      return db.get<HabitRow>(`SELECT ${HABIT_COLUMNS} FROM habits WHERE id = ? AND user_id = ?`, [
+        habitId,
+        userId
+      ]);
+    },
+
+    /** The habit if it existed and was not archived on `date`. */
+    findExistingOn(userId: number, habitId: number, date: string) {
+      return db.get<HabitRow>(
+        `SELECT ${HABIT_COLUMNS} FROM habits
+         WHERE id = ? AND user_id = ? AND created_at <= ? AND (deleted_on IS NULL OR deleted_on > ?)`,
+        [habitId, userId, date, date]
+      );
+    },
+
+    /** Case-insensitive name lookup, optionally limited to active or archived habits. */
+    findByName(userId: number, name: string, options: { archived?: boolean; excludeId?: number } = {}) {
+      const conditions = ["user_id = ?", "lower(name) = lower(?)"];
+      const params: unknown[] = [userId, name];
+      if (options.archived === true) conditions.push("deleted_on IS NOT NULL");
+      if (options.archived === false) conditions.push("deleted_on IS NULL");
+      if (options.excludeId !== undefined) {
+        conditions.push("id <> ?");
+        params.push(options.excludeId);
+      }
+      return db.get<HabitRow>(`SELECT ${HABIT_COLUMNS} FROM habits WHERE ${conditions.join(" AND ")}`, params);
+    },
+
+    /** Habits that existed on `date`, joined with that day's checkin if there is one. */
+    listWithCheckinOn(userId: number, date: string) {
+      return db.all<ChecklistRow>(
+        `SELECT h.*, c.completed, c.value, c.note
+         FROM habits h
+         LEFT JOIN checkins c
+           ON h.id = c.habit_id AND c.date = ?
+         WHERE h.user_id = ?
+           AND h.created_at <= ?
+           AND (h.deleted_on IS NULL OR h.deleted_on > ?)
+         ORDER BY h.id ASC`,
+        [date, userId, date, date]
+      );
+    },
+
+    async create(userId: number, fields: HabitFields & { polarity: HabitPolarity }) {
+      const result = await db.run(
+        `INSERT INTO habits (
+           name, user_id, created_at, schedule_type, schedule_weekdays, schedule_per_week, schedule_every_days,
+           unit, daily_target, polarity, category, color
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`,
+        [
+          fields.name,
+          userId,
+          fields.createdAt,
+          ...scheduleColumnValues(fields.schedule),
+          fields.unit,
+          fields.dailyTarget,
+          fields.polarity,
+          fields.category,
+          fields.color
+        ]
+      );
+      return result.lastID;
+    },
+
+    async update(userId: number, habitId: number, fields: HabitFields) {
+      await db.run(
+        `UPDATE habits
+         SET name = ?, created_at = ?, schedule_type = ?, schedule_weekdays = ?, schedule_per_week = ?,
+             schedule_every_days = ?, unit = ?, daily_target = ?, category = ?, color = ?
+         WHERE id = ? AND user_id = ?`,
+        [
+          fields.name,
+          fields.createdAt,
+          ...scheduleColumnValues(fields.schedule),
+          fields.unit,
+          fields.dailyTarget,
+          fields.category,
+          fields.color,
+          habitId,
+          userId
+        ]
+      );
+    },
+
+    async archive(userId: number, habitId: number, deletedOn: string) {
+      await db.run("UPDATE habits SET deleted_on = ? WHERE id = ? AND user_id = ?", [deletedOn, habitId, userId]);
+    },
+
+    async restore(userId: number, habitId: number, inactiveRanges: string | null) {
+      await db.run("UPDATE habits SET deleted_on = NULL, inactive_ranges = ? WHERE id = ? AND user_id = ?", [
+        inactiveRanges,
+        habitId,
+        userId
+      ]);
+    },
+
+    async setCreatedAt(userId: number, habitId: number, createdAt: string) {
+      await db.run("UPDATE habits SET created_at = ? WHERE id = ? AND user_id = ?", [createdAt, habitId, userId]);
+    },
+
+    /** Sets archive date and pauses in one go, for habits recreated from a backup. */
+    async setLifecycle(userId: number, habitId: number, deletedOn: string | null, inactiveRanges: string | null) {
+      await db.run("UPDATE habits SET deleted_on = ?, inactive_ranges = ? WHERE id = ? AND user_id = ?", [
+        deletedOn,
+        inactiveRanges,
+        habitId,
+        userId
+      ]);
+    },
+
+    async remove(userId: number, habitId: number) {
+      await db.run("DELETE FROM habits WHERE id = ? AND user_id = ?", [habitId, userId]);
+    },
+
+    async removeForUser(userId: number) {
+      await db.run("DELETE FROM habits WHERE user_id = ?", [userId]);
+    }
+  };
+}
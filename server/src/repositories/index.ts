@@ -0,0 +1,36 @@
+import { database, transaction } from "../db.js";
+import type { SqlExecutor } from "../storage/types.js";
+import { checkinsRepository } from "./checkins.js";
+import { excusedRangesRepository } from "./excused.js";
+import { habitsRepository } from "./habits.js";
+import { journalRepository } from "./journal.js";
+import { rollupsRepository } from "./rollups.js";
+import { accessTokensRepository } from "./tokens.js";
+import { usersRepository } from "./users.js";
+
+export type { ChecklistRow, HabitFields } from "./habits.js";
+export type { CheckinRow, HabitCheckinRow, HabitDateRow } from "./checkins.js";
+export type { JournalEntryRow, NoteSearchRow } from "./journal.js";
+export type { DailyRollupRow } from "./rollups.js";
+export type { AccessTokenRow, TokenPurpose } from "./tokens.js";
+export type { UserRow } from "./users.js";
+
+/** Repositories bound to `db`: the shared connection by default, or a transaction's executor. */
+export function repositories(db: SqlExecutor = database) {
+  return {
+    users: usersRepository(db),
+    habits: habitsRepository(db),
+    checkins: checkinsRepository(db),
+    excused: excusedRangesRepository(db),
+    journal: journalRepository(db),
+    rollups: rollupsRepository(db),
+    tokens: accessTokensRepository(db)
+  };
+}
+
+export type Repositories = ReturnType<typeof repositories>;
+
+/** Runs `work` in one transaction; everything done through the given repositories commits or rolls back together. */
+export function inTransaction<T>(work: (repos: Repositories) => Promise<T>) {
+  return transaction((tx) => work(repositories(tx)));
+}
@@ -0,0 +1,71 @@
+import type { SqlExecutor } from "../storage/types.js";
+
+export interface JournalEntryRow {
+  date: string;
+  body: string;
+}
+
+export interface NoteSearchRow {
+  date: string;
+  habit_id: number | null;
+  habit_name: string | null;
+  note: string;
+}
+
+export function journalRepository(db: SqlExecutor) {
+  return {
+    find(userId: number, date: string) {
+      return db.get<JournalEntryRow>("SELECT date, body FROM journal_entries WHERE user_id = ? AND date = ?", [
+        userId,
+        date
+      ]);
+    },
+
+    listForUser(userId: number) {
+      return db.all<JournalEntryRow>("SELECT date, body FROM journal_entries WHERE user_id = ? ORDER BY date ASC", [
+        userId
+      ]);
+    },
+
+    async save(userId: number, date: string, body: string) {
+      await db.run(
+        `INSERT INTO journal_entries (user_id, date, body)
+         VALUES (?, ?, ?)
+         ON CONFLICT(user_id, date)
+         DO UPDATE SET body = excluded.body`,
+        [userId, date, body]
+      );
+    },
+
+    async remove(userId: number, date: string) {
+      await db.run("DELETE FROM journal_entries WHERE user_id = ? AND date = ?", [userId, date]);
+    },
+
+    async removeForUser(userId: number) {
+      await db.run("DELETE FROM journal_entries WHERE user_id = ?", [userId]);
+    },
+
+    /** Checkin notes and journal entries containing `query` (case-insensitive), newest first. */
+    searchNotes(userId: number, query: string, start: string, end: string) {
+      const pattern = `%${query.toLowerCase().replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      return db.all<NoteSearchRow>(
+        `SELECT c.date, h.id AS habit_id, h.name AS habit_name, c.note
+         FROM checkins c
+         JOIN habits h ON h.id = c.habit_id
+         WHERE h.user_id = ?
+           AND c.date BETWEEN ? AND ?
+           AND c.note IS NOT NULL
+           AND lower(c.note) LIKE ? ESCAPE '\\'
+         UNION ALL
+         SELECT date, NULL AS habit_id, NULL AS habit_name, body AS note
+         FROM journal_entries
+         WHERE user_id = ?
+           AND date BETWEEN ? AND ?
+           AND lower(body) LIKE ? ESCAPE '\\'
+         ORDER BY date DESC
+         LIMIT 200`,
+        [userId, start, end, pattern, userId, start, end, pattern]
+      );
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import type { SqlExecutor } from "../storage/types.js";
+
+export interface DailyRollupRow {
+  date: string;
+  active_habits: number;
+  completed: number;
+}
+
+export function rollupsRepository(db: SqlExecutor) {
+  return {
+    listForUser(userId: number, start: string, end: string) {
+      return db.all<DailyRollupRow>(
+        `SELECT date, active_habits, completed
+         FROM daily_rollups
+         WHERE user_id = ? AND date BETWEEN ? AND ?
+         ORDER BY date ASC`,
+        [userId, start, end]
+      );
+    },
+
+    /** The newest materialized day, or null when the user has no rollups yet. */
+    async lastDate(userId: number) {
+      const row = await db.get<{ date: string | null }>("SELECT MAX(date) AS date FROM daily_rollups WHERE user_id = ?", [
+        userId
+      ]);
+      return row?.date ?? null;
+    },
+
+    async upsertMany(userId: number, rows: DailyRollupRow[]) {
+      for (const row of rows) {
+        await db.run(
+          `INSERT INTO daily_rollups (user_id, date, active_habits, completed)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT(user_id, date)
+           DO UPDATE SET active_habits = excluded.active_habits, completed = excluded.completed`,
+          [userId, row.date, row.active_habits, row.completed]
+        );
+      }
+    },
+
+    async removeForUser(userId: number) {
+      await db.run("DELETE FROM daily_rollups WHERE user_id = ?", [userId]);
+    }
+  };
+}
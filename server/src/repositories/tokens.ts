@@ -0,0 +1,43 @@
+import type { SqlExecutor } from "../storage/types.js";
+
+export type TokenPurpose = "calendar" | "badge";
+
+export interface AccessTokenRow {
+  token: string;
+  user_id: number;
+  purpose: TokenPurpose;
+  created_at: string;
+}
+
+export function accessTokensRepository(db: SqlExecutor) {
+  return {
+    find(userId: number, purpose: TokenPurpose) {
+      return db.get<AccessTokenRow>(
+        "SELECT token, user_id, purpose, created_at FROM access_tokens WHERE user_id = ? AND purpose = ?",
+        [userId, purpose]
+      );
+    },
+
+    findByToken(token: string, purpose: TokenPurpose) {
+      return db.get<AccessTokenRow>(
+        "SELECT token, user_id, purpose, created_at FROM access_tokens WHERE token = ? AND purpose = ?",
+        [token, purpose]
+      );
+    },
+
+    /** Replaces the user's token for `purpose` in one statement, so the old one stops working at once. */
+    async replace(userId: number, purpose: TokenPurpose, token: string, createdAt: string) {
+      await db.run(
+        `INSERT INTO access_tokens (token, user_id, purpose, created_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(user_id, purpose)
+         DO UPDATE SET token = excluded.token, created_at = excluded.created_at`,
+        [token, userId, purpose, createdAt]
+      );
+    },
+
+    async remove(userId: number, purpose: TokenPurpose) {
+      await db.run("DELETE FROM access_tokens WHERE user_id = ? AND purpose = ?", [userId, purpose]);
+    }
+  };
+}
@@ -0,0 +1,41 @@
+import type { SqlExecutor } from "../storage/types.js";
+
+export interface UserRow {
+  id: number;
+  username: string;
+  password_hash: string;
+  created_at: string;
+  time_zone: string;
+}
+
+export function usersRepository(db: SqlExecutor) {
+  return {
+    findById(userId: number) {
+      return db.get<UserRow>("SELECT id, username, time_zone FROM users WHERE id = ?", [userId]);
+    },
+
+    findByUsername(username: string) {
+      return db.get<UserRow>(
+        "SELECT id, username, password_hash, time_zone FROM users WHERE lower(username) = lower(?)",
+        [username]
+      );
+    },
+
+    async create(input: { username: string; passwordHash: string; timeZone: string }) {
+      const result = await db.run(
+        "INSERT INTO users (username, password_hash, time_zone) VALUES (?, ?, ?) RETURNING id",
+        [input.username, input.passwordHash, input.timeZone]
+      );
+      return result.lastID;
+    },
+
+    async listIds() {
+      const rows = await db.all<{ id: number }>("SELECT id FROM users ORDER BY id ASC");
+      return rows.map((row) => row.id);
+    },
+
+    async updateTimeZone(userId: number, timeZone: string) {
+      await db.run("UPDATE users SET time_zone = ? WHERE id = ?", [timeZone, userId]);
+    }
+  };
+}
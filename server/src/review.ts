@@ -0,0 +1,110 @@
+import { addDaysISO } from "./dates.js";
+import { computeStreak } from "./habits.js";
+import {
+  combinedStatusOn,
+  type HabitLedger,
+  type PeriodSummary,
+  summarizeHabits,
+  summarizePeriod
+} from "./summary.js";
+
+export interface ReviewHabit {
+  habitId: number;
+  name: string;
+  color: string | null;
+  summary: PeriodSummary;
+  longestStreak: number;
+  /** Days of the year that were done or missed; everything else was not due. */
+  doneDates: string[];
+  missedDates: string[];
+}
+
+export interface YearReview {
+  year: number;
+  start: string;
+  end: string;
+  summary: PeriodSummary;
+  totalCompletions: number;
+  bestMonth: (PeriodSummary & { label: string }) | null;
+  bestWeekday: string;
+  longestStreak: number;
+  perfectDays: number;
+  mostImproved: { habitId: number; name: string; from: number; to: number } | null;
+  habits: ReviewHabit[];
+}
+
+/** Streak counting restarts on January 1 so a year only gets credit for its own days. */
+function longestStreakWithin(startISO: string, endISO: string, statusOn: Parameters<typeof computeStreak>[2]) {
+  return computeStreak(startISO, endISO, statusOn).longestStreak;
+}
+
+/**
+ * Recap of `year` built from the summary ledgers, capped at today for the current year.
+ * Most improved compares each habit's consistency with the year before.
+ */
+export function buildYearReview(ledgers: HabitLedger[], year: number, todayISO: string): YearReview {
+  const start = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+  const end = yearEnd < todayISO ? yearEnd : todayISO;
+  const active = ledgers.filter(
+    (ledger) => ledger.habit.created_at <= end && (!ledger.habit.deleted_on || ledger.habit.deleted_on > start)
+  );
+  const overview = summarizeHabits(active, { start, end: yearEnd, granularity: "month" }, todayISO);
+
+  const bestMonth = overview.monthly
+    .filter((month) => month.total > 0)
+    .reduce<(PeriodSummary & { label: string }) | null>(
+      (best, month) => (!best || month.consistency > best.consistency ? month : best),
+      null
+    );
+
+  let perfectDays = 0;
+  for (let iso = start; iso <= end; iso = addDaysISO(iso, 1)) {
+    if (combinedStatusOn(active, iso) === "done") perfectDays += 1;
+  }
+
+  let mostImproved: YearReview["mostImproved"] = null;
+  const habits: ReviewHabit[] = [];
+  for (const ledger of active) {
+    const { habit } = ledger;
+    const summary = summarizePeriod(ledger, start > habit.created_at ? start : habit.created_at, end, todayISO);
+    const previous = summarizePeriod(ledger, `${year - 1}-01-01`, `${year - 1}-12-31`, todayISO);
+    if (summary.total > 0 && previous.total > 0) {
+      const gain = summary.consistency - previous.consistency;
+      if (gain > 0 && (!mostImproved || gain > mostImproved.to - mostImproved.from)) {
+        mostImproved = { habitId: habit.id, name: habit.name, from: previous.consistency, to: summary.consistency };
+      }
+    }
+
+    const doneDates: string[] = [];
+    const missedDates: string[] = [];
+    for (let iso = start; iso <= end; iso = addDaysISO(iso, 1)) {
+      const status = ledger.tallyOn(iso);
+      if (status === "done") doneDates.push(iso);
+      else if (status === "missed" && iso < todayISO) missedDates.push(iso);
+    }
+    habits.push({
+      habitId: habit.id,
+      name: habit.name,
+      color: habit.color ?? null,
+      summary,
+      longestStreak: longestStreakWithin(start, end, (dateISO) => ledger.statusOn(dateISO)),
+      doneDates,
+      missedDates
+    });
+  }
+
+  return {
+    year,
+    start,
+    end,
+    summary: overview.year,
+    totalCompletions: overview.year.completed,
+    bestMonth,
+    bestWeekday: overview.year.total === 0 ? "N/A" : overview.bestDay,
+    longestStreak: longestStreakWithin(start, end, (dateISO) => combinedStatusOn(active, dateISO)),
+    perfectDays,
+    mostImproved,
+    habits
+  };
+}
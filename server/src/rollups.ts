@@ -0,0 +1,114 @@
+import { addDaysISO } from "./dates.js";
+import {
+  groupCompletionsByHabit,
+  type HabitRow,
+  isHabitActiveOnDate,
+  isHabitDoneOnDate,
+  isHabitDueOnDate
+} from "./habits.js";
+import { type DailyRollupRow, type HabitDateRow, inTransaction, type Repositories } from "./repositories/index.js";
+
+/**
+ * Daily rollups only depend on habits and checkins, never on "today", so a stored day stays
+ * valid until one of those changes. Quit habits count their clean (row-less) days as completed.
+ * They feed the heatmaps only: `active_habits` is not a due count, so streaks and summaries
+ * cannot be answered from them.
+ */
+export function computeDailyRollups(
+  habits: HabitRow[],
+  checkins: HabitDateRow[],
+  startISO: string,
+  endISO: string
+): DailyRollupRow[] {
+  const completionsByHabit = groupCompletionsByHabit(checkins);
+  const rows: DailyRollupRow[] = [];
+  for (let iso = startISO; iso <= endISO; iso = addDaysISO(iso, 1)) {
+    let activeHabits = 0;
+    let completed = 0;
+    for (const habit of habits) {
+      if (!isHabitActiveOnDate(habit, iso)) continue;
+      activeHabits += 1;
+      const completions = completionsByHabit.get(habit.id) ?? new Map();
+      if (isHabitDueOnDate(habit, iso) && isHabitDoneOnDate(habit, completions, iso)) completed += 1;
+    }
+    rows.push({ date: iso, active_habits: activeHabits, completed });
+  }
+  return rows;
+}
+
+function earliestCreatedAt(habits: HabitRow[]) {
+  return habits.map((habit) => habit.created_at).sort()[0] ?? null;
+}
+
+async function writeRollups(repos: Repositories, userId: number, startISO: string, endISO: string) {
+  const habits = await repos.habits.listAll(userId);
+  const checkins = await repos.checkins.listForUser(userId, startISO, endISO);
+  const rows = computeDailyRollups(habits, checkins, startISO, endISO);
+  await repos.rollups.upsertMany(userId, rows);
+  return rows.length;
+}
+
+/**
+ * Recomputes materialized days from `startISO` (through `endISO`, or the newest stored day).
+ * Call it with the repositories of the transaction that made the change. Days that were never
+ * materialized are left for ensureRollups.
+ */
+export async function refreshRollups(repos: Repositories, userId: number, startISO: string, endISO?: string) {
+  const last = await repos.rollups.lastDate(userId);
+  if (!last) return;
+  const end = endISO && endISO < last ? endISO : last;
+  if (end < startISO) return;
+  await writeRollups(repos, userId, startISO, end);
+}
+
+/** Materializes any days between the newest stored day (or the first habit) and today. */
+export async function ensureRollups(userId: number, todayISO: string) {
+  await inTransaction(async (tx) => {
+    const last = await tx.rollups.lastDate(userId);
+    if (last && last >= todayISO) return;
+    const start = last ? addDaysISO(last, 1) : earliestCreatedAt(await tx.habits.listAll(userId));
+    if (!start || start > todayISO) return;
+    await writeRollups(tx, userId, start, todayISO);
+  });
+}
+
+/** Drops and recomputes every rollup of the user from their first habit through today. */
+export async function rebuildRollups(userId: number, todayISO: string) {
+  return inTransaction(async (tx) => {
+    await tx.rollups.removeForUser(userId);
+    const start = earliestCreatedAt(await tx.habits.listAll(userId));
+    if (!start || start > todayISO) return 0;
+    return writeRollups(tx, userId, start, todayISO);
+  });
+}
+
+export interface RollupMismatch {
+  date: string;
+  stored: { activeHabits: number; completed: number } | null;
+  expected: { activeHabits: number; completed: number };
+}
+
+/** Compares the stored rollups against a fresh computation from raw checkins. */
+export async function checkRollups(repos: Repositories, userId: number) {
+  const last = await repos.rollups.lastDate(userId);
+  if (!last) return [];
+  const storedRows = await repos.rollups.listForUser(userId, "0001-01-01", last);
+  const habits = await repos.habits.listAll(userId);
+  const firstHabitDay = earliestCreatedAt(habits);
+  const start = firstHabitDay && firstHabitDay < storedRows[0].date ? firstHabitDay : storedRows[0].date;
+
+  const stored = new Map(storedRows.map((row) => [row.date, row]));
+  const checkins = await repos.checkins.listForUser(userId, start, last);
+  const mismatches: RollupMismatch[] = [];
+  for (const expected of computeDailyRollups(habits, checkins, start, last)) {
+    const row = stored.get(expected.date);
+    if (row && row.active_habits === expected.active_habits && row.completed === expected.completed) continue;
+    if (!row && expected.active_habits === 0) continue;
+    mismatches.push({
+      date: expected.date,
+      stored: row ? { activeHabits: row.active_habits, completed: row.completed } : null,
+      expected: { activeHabits: expected.active_habits, completed: expected.completed }
+    });
+  }
+  return mismatches;
+}
@@ -0,0 +1,56 @@
+import pg from "pg";
+import type { SqlExecutor, StorageDriver } from "./types.js";
+
+const { Pool } = pg;
+
+function toPgSql(sql: string) {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
+
+function createExecutor(client: pg.Pool | pg.PoolClient): SqlExecutor {
+  return {
+    async run(sql, params = []) {
+      const result = await client.query(toPgSql(sql), params);
+      const firstRow = result.rows[0] as { id?: number } | undefined;
+      return {
+        lastID: Number(firstRow?.id ?? 0),
+        changes: result.rowCount ?? 0
+      };
+    },
+    async all<T>(sql: string, params: unknown[] = []) {
+      const result = await client.query(toPgSql(sql), params);
+      return result.rows as T[];
+    },
+    async get<T>(sql: string, params: unknown[] = []) {
+      const result = await client.query(toPgSql(sql), params);
+      return (result.rows[0] as T | undefined) ?? undefined;
+    }
+  };
+}
+
+export function createPostgresDriver(connectionString: string): StorageDriver {
+  const pool = new Pool({
+    connectionString,
+    ssl: { rejectUnauthorized: false }
+  });
+
+  return {
+    dialect: "postgres",
+    ...createExecutor(pool),
+    async transaction(work) {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const result = await work(createExecutor(client));
+        await client.query("COMMIT");
+        return result;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
+  };
+}
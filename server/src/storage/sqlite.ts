@@ -0,0 +1,95 @@
+import fs from "node:fs";
+import path from "node:path";
+import sqlite3 from "sqlite3";
+import type { RunResult, SqlExecutor, StorageDriver } from "./types.js";
+
+const ADD_COLUMN_IF_NOT_EXISTS = /^\s*ALTER\s+TABLE\s+(\w+)\s+ADD\s+COLUMN\s+IF\s+NOT\s+EXISTS\s+(\w+)\s+(.+?)\s*$/is;
+
+/** Rewrites the Postgres-only bits of our schema and queries into SQLite syntax. */
+function toSqliteSql(sql: string) {
+  return sql
+    .replace(/\bSERIAL\s+PRIMARY\s+KEY\b/gi, "INTEGER PRIMARY KEY AUTOINCREMENT")
+    .replace(/\bCURRENT_DATE::text\b/gi, "CURRENT_DATE");
+}
+
+export function createSqliteDriver(filename: string): StorageDriver {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+  const db = new sqlite3.Database(filename);
+  db.configure("busyTimeout", 5000);
+  // SQLite leaves foreign keys (and so ON DELETE CASCADE) off unless asked per connection.
+  db.run("PRAGMA foreign_keys = ON");
+
+  function execute(sql: string, params: unknown[]) {
+    return new Promise<RunResult>((resolve, reject) => {
+      db.run(toSqliteSql(sql), params, function onRun(error) {
+        if (error) reject(error);
+        else resolve({ lastID: this.lastID, changes: this.changes });
+      });
+    });
+  }
+
+  function query<T>(sql: string, params: unknown[]) {
+    return new Promise<T[]>((resolve, reject) => {
+      db.all(toSqliteSql(sql), params, (error, rows) => {
+        if (error) reject(error);
+        else resolve(rows as T[]);
+      });
+    });
+  }
+
+  const executor: SqlExecutor = {
+    async run(sql, params = []) {
+      const addColumn = ADD_COLUMN_IF_NOT_EXISTS.exec(sql);
+      if (addColumn) {
+        const [, table, column, definition] = addColumn;
+        const columns = await query<{ name: string }>(`PRAGMA table_info(${table})`, []);
+        if (columns.some((entry) => entry.name.toLowerCase() === column.toLowerCase())) {
+          return { lastID: 0, changes: 0 };
+        }
+        return execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`, []);
+      }
+      if (/\bRETURNING\b/i.test(sql)) {
+        const rows = await query<{ id?: number }>(sql, params);
+        return { lastID: Number(rows[0]?.id ?? 0), changes: rows.length };
+      }
+      return execute(sql, params);
+    },
+    all<T>(sql: string, params: unknown[] = []) {
+      return query<T>(sql, params);
+    },
+    async get<T>(sql: string, params: unknown[] = []) {
+      const rows = await query<T>(sql, params);
+      return rows[0];
+    }
+  };
+
+  // One connection serves every request, so statements are queued to keep other requests'
+  // queries from landing inside an open transaction.
+  let queue: Promise<unknown> = Promise.resolve();
+  function exclusive<T>(task: () => Promise<T>) {
+    const result = queue.then(task, task);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  return {
+    dialect: "sqlite",
+    run: (sql, params) => exclusive(() => executor.run(sql, params)),
+    all: <T>(sql: string, params?: unknown[]) => exclusive(() => executor.all<T>(sql, params)),
+    get: <T>(sql: string, params?: unknown[]) => exclusive(() => executor.get<T>(sql, params)),
+    transaction: (work) =>
+      exclusive(async () => {
+        await execute("BEGIN", []);
+        try {
+          const result = await work(executor);
+          await execute("COMMIT", []);
+          return result;
+        } catch (error) {
+          await execute("ROLLBACK", []);
+          throw error;
+        }
+      })
+  };
+}
@@ -0,0 +1,25 @@
+export type SqlDialect = "postgres" | "sqlite";
+
+export interface RunResult {
+  lastID: number;
+  changes: number;
+}
+
+/**
+ * Runs SQL with `?` placeholders, written in the Postgres-flavoured dialect used by the
+ * routes; each driver rewrites whatever its engine does not understand.
+ */
+export interface SqlExecutor {
+  run(sql: string, params?: unknown[]): Promise<RunResult>;
+  all<T>(sql: string, params?: unknown[]): Promise<T[]>;
+  get<T>(sql: string, params?: unknown[]): Promise<T | undefined>;
+}
+
+export interface StorageDriver extends SqlExecutor {
+  dialect: SqlDialect;
+  /**
+   * Runs `work` inside BEGIN/COMMIT, rolling back if it throws. Queries that belong to the
+   * transaction must go through the `tx` executor, not the driver itself.
+   */
+  transaction<T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T>;
+}
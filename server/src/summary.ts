@@ -0,0 +1,590 @@
+import {
+  addDaysISO,
+  dayBeforeISO,
+  daysBetweenISO,
+  endOfISOWeek,
+  endOfMonthUTC,
+  fromISODate,
+  GRANULARITIES,
+  type Granularity,
+  isISODate,
+  monthLabel,
+  splitRange,
+  startOfISOWeek,
+  toISODate
+} from "./dates.js";
+import {
+  computeStreak,
+  type DayStatus,
+  getHabitSchedule,
+  type HabitRow,
+  isHabitActiveOnDate,
+  isHabitDoneOnDate,
+  isHabitDueOnDate,
+  isHabitExcusedOnDate,
+  isHabitPausedOnDate,
+  isQuantitativeHabit,
+  type StreakResult,
+  type StreakRun
+} from "./habits.js";
+import {
+  computeTrend,
+  DEFAULT_GOAL,
+  type PeriodCounter,
+  rollingAt,
+  type RollingPoint,
+  type Trend,
+  type TrendDirection
+} from "./trends.js";
+
+export interface PeriodSummary {
+  completed: number;
+  total: number;
+  consistency: number;
+  valueTotal?: number;
+  valueAverage?: number;
+}
+
+export interface HabitComparisonItem {
+  habitId: number;
+  name: string;
+  consistency: number;
+  category: string | null;
+  color: string | null;
+}
+
+export interface HabitTrendItem {
+  habitId: number;
+  name: string;
+  color: string | null;
+  direction: TrendDirection;
+  rolling30: number;
+  previous30: number;
+}
+
+export interface SummaryRange {
+  start: string;
+  end: string;
+  granularity: Granularity;
+}
+
+export interface HabitSummary {
+  range: SummaryRange;
+  /** Totals for the whole range; named after the default range, a calendar year. */
+  year: PeriodSummary;
+  currentWeek: PeriodSummary;
+  currentMonth: PeriodSummary;
+  weekly: Array<PeriodSummary & RollingPoint & { label: string }>;
+  monthly: Array<PeriodSummary & { label: string }>;
+  currentStreak: number;
+  longestStreak: number;
+  freezesRemaining: number;
+  frozenDays: string[];
+  lifetimeCompletions: number;
+  bestDay: string;
+  missedDayInsight: string;
+  habitComparison: HabitComparisonItem[];
+  periods: Array<PeriodSummary & RollingPoint & { label: string; start: string; end: string }>;
+  trend: Trend;
+  habitTrends: HabitTrendItem[];
+}
+
+const MAX_RANGE_DAYS = 3660;
+const MAX_DAILY_BUCKETS = 366;
+
+/** `start`/`end` take precedence over `year`; without either the range is `defaultYear`. */
+export function parseSummaryRangeInput(
+  query: { year?: unknown; start?: unknown; end?: unknown; granularity?: unknown },
+  defaultYear: number
+): { range: SummaryRange } | { error: string } {
+  const granularity = String(query.granularity ?? "month") as Granularity;
+  if (!GRANULARITIES.includes(granularity)) {
+    return { error: "granularity must be day, week, month or quarter." };
+  }
+
+  let start: string;
+  let end: string;
+  if (query.start !== undefined || query.end !== undefined) {
+    start = String(query.start ?? "").trim();
+    end = String(query.end ?? "").trim();
+    if (!isISODate(start) || !isISODate(end)) {
+      return { error: "start and end must be YYYY-MM-DD." };
+    }
+    if (end < start) {
+      return { error: "end must not be before start." };
+    }
+    if (daysBetweenISO(start, end) >= MAX_RANGE_DAYS) {
+      return { error: `A summary range can cover at most ${MAX_RANGE_DAYS} days.` };
+    }
+  } else {
+    const year = Number(query.year ?? defaultYear);
+    if (!Number.isInteger(year) || year < 1970 || year > 2100) {
+      return { error: "Invalid year." };
+    }
+    start = `${year}-01-01`;
+    end = `${year}-12-31`;
+  }
+
+  if (granularity === "day" && daysBetweenISO(start, end) >= MAX_DAILY_BUCKETS) {
+    return { error: `Daily buckets are limited to ranges of ${MAX_DAILY_BUCKETS} days.` };
+  }
+  return { range: { start, end, granularity } };
+}
+
+interface CheckinFacts {
+  completions: Map<string, boolean>;
+  values: Map<string, number>;
+}
+
+/**
+ * A habit's days walked once, from the Monday of its creation week to the end of the current week.
+ * Counts are kept as prefix sums, so every period, streak and weekday figure is a lookup afterwards.
+ */
+export interface HabitLedger {
+  habit: HabitRow;
+  isActiveOn(dateISO: string): boolean;
+  statusOn(dateISO: string): DayStatus;
+  /**
+   * Like statusOn, but a weekly-quota week that fell short only reports its shortfall (quota minus
+   * done) as missed days; statusOn marks every open day of that week missed so the streak breaks.
+   */
+  tallyOn(dateISO: string): DayStatus;
+  /**
+   * Due and completed days in [startISO, endISO], clipped to the habit's active window.
+   * Excused days only count when they were completed anyway.
+   * Weekly-quota habits contribute min(perWeek, days in the slice) due days per ISO week.
+   */
+  countPeriod(startISO: string, endISO: string): { completed: number; total: number };
+  valueTotal(startISO: string, endISO: string): number;
+}
+
+export function groupCheckinsByHabit(
+  rows: Array<{ habit_id: number; date: string; completed: number; value?: number | null }>
+) {
+  const grouped = new Map<number, CheckinFacts>();
+  for (const row of rows) {
+    let facts = grouped.get(row.habit_id);
+    if (!facts) {
+      facts = { completions: new Map(), values: new Map() };
+      grouped.set(row.habit_id, facts);
+    }
+    facts.completions.set(row.date, row.completed === 1);
+    if (row.value !== null && row.value !== undefined) facts.values.set(row.date, Number(row.value));
+  }
+  return grouped;
+}
+
+export function buildHabitLedger(habit: HabitRow, facts: CheckinFacts | undefined, todayISO: string): HabitLedger {
+  const completions = facts?.completions ?? new Map<string, boolean>();
+  const values = facts?.values ?? new Map<string, number>();
+  const schedule = getHabitSchedule(habit);
+  const firstDay = toISODate(startOfISOWeek(fromISODate(habit.created_at)));
+  const lastDay = toISODate(endOfISOWeek(fromISODate(todayISO)));
+  const length = Math.max(0, daysBetweenISO(firstDay, lastDay) + 1);
+
+  const active = new Uint8Array(length);
+  const statuses = new Array<DayStatus>(length).fill("skip");
+  // Prefix sums: counted days (due and not excused away), completed counted days, and logged values on due days.
+  const countedSums = new Int32Array(length + 1);
+  const doneSums = new Int32Array(length + 1);
+  const valueSums = new Float64Array(length + 1);
+  const pendingQuota: number[] = [];
+  const shortfallDays = new Uint8Array(length);
+
+  let iso = firstDay;
+  for (let i = 0; i < length; i += 1, iso = addDaysISO(iso, 1)) {
+    let counted = false;
+    let done = false;
+    let value = 0;
+    if (isHabitActiveOnDate(habit, iso)) {
+      active[i] = 1;
+      done = isHabitDoneOnDate(habit, completions, iso);
+      const due = isHabitDueOnDate(habit, iso);
+      const excused = !done && isHabitExcusedOnDate(habit, iso);
+      counted = due && !excused;
+      if (due) value = values.get(iso) ?? 0;
+      if (done) statuses[i] = "done";
+      else if (!excused && due) {
+        if (schedule.type === "weekly") pendingQuota.push(i);
+        else statuses[i] = "missed";
+      }
+    }
+    countedSums[i + 1] = countedSums[i] + (counted ? 1 : 0);
+    doneSums[i + 1] = doneSums[i] + (counted && done ? 1 : 0);
+    valueSums[i + 1] = valueSums[i] + value;
+  }
+
+  const sum = (sums: Int32Array | Float64Array, from: number, to: number) => sums[to + 1] - sums[from];
+  const indexOf = (dateISO: string) => daysBetweenISO(firstDay, dateISO);
+  const todayIndex = indexOf(todayISO);
+
+  // An open weekly-quota day only counts as missed once the rest of its week can no longer meet the quota.
+  // Only the latest elapsed open days, as many as the quota fell short by, count towards missed-day statistics.
+  if (schedule.type === "weekly") {
+    const pendingByWeek = new Map<number, number[]>();
+    for (const i of pendingQuota) {
+      const weekStart = i - (i % 7);
+      pendingByWeek.set(weekStart, [...(pendingByWeek.get(weekStart) ?? []), i]);
+    }
+    for (const [weekStart, pending] of pendingByWeek) {
+      const weekEnd = weekStart + 6;
+      const weekDays = sum(countedSums, weekStart, weekEnd);
+      const quota = Math.min(schedule.perWeek, weekDays);
+      const done = sum(doneSums, weekStart, weekEnd);
+      const fromToday = Math.max(weekStart, todayIndex);
+      const remaining =
+        fromToday > weekEnd ? 0 : sum(countedSums, fromToday, weekEnd) - sum(doneSums, fromToday, weekEnd);
+      const shortfall = quota - done - remaining;
+      if (shortfall <= 0) continue;
+      for (const i of pending) statuses[i] = "missed";
+      for (const i of pending.filter((index) => index < fromToday).slice(-shortfall)) shortfallDays[i] = 1;
+    }
+  }
+
+  const inLedger = (index: number) => index >= 0 && index < length;
+
+  return {
+    habit,
+    isActiveOn(dateISO) {
+      const index = indexOf(dateISO);
+      return inLedger(index) && active[index] === 1;
+    },
+    statusOn(dateISO) {
+      const index = indexOf(dateISO);
+      return inLedger(index) ? statuses[index] : "skip";
+    },
+    tallyOn(dateISO) {
+      const index = indexOf(dateISO);
+      if (!inLedger(index)) return "skip";
+      const overQuota = schedule.type === "weekly" && statuses[index] === "missed" && !shortfallDays[index];
+      return overQuota ? "skip" : statuses[index];
+    },
+    countPeriod(startISO, endISO) {
+      const lastActive = habit.deleted_on ? dayBeforeISO(habit.deleted_on) : null;
+      const from = Math.max(indexOf(startISO > habit.created_at ? startISO : habit.created_at), 0);
+      const to = Math.min(indexOf(lastActive && lastActive < endISO ? lastActive : endISO), length - 1);
+      if (to < from) return { completed: 0, total: 0 };
+      if (schedule.type !== "weekly") {
+        return { completed: sum(doneSums, from, to), total: sum(countedSums, from, to) };
+      }
+      let completed = 0;
+      let total = 0;
+      for (let sliceStart = from; sliceStart <= to; ) {
+        const sliceEnd = Math.min(to, sliceStart - (sliceStart % 7) + 6);
+        const due = Math.min(schedule.perWeek, sum(countedSums, sliceStart, sliceEnd));
+        total += due;
+        completed += Math.min(sum(doneSums, sliceStart, sliceEnd), due);
+        sliceStart = sliceEnd + 1;
+      }
+      return { completed, total };
+    },
+    valueTotal(startISO, endISO) {
+      const from = Math.max(indexOf(startISO), 0);
+      const to = Math.min(indexOf(endISO), length - 1);
+      return to < from ? 0 : sum(valueSums, from, to);
+    }
+  };
+}
+
+function toSummary(completed: number, total: number): PeriodSummary {
+  return {
+    completed,
+    total,
+    consistency: total === 0 ? 0 : Number(((completed / total) * 100).toFixed(1))
+  };
+}
+
+/** One habit over [startISO, endISO], capped at today; quantitative habits add their logged totals. */
+export function summarizePeriod(ledger: HabitLedger, startISO: string, endISO: string, todayISO: string) {
+  const cappedEnd = endISO > todayISO ? todayISO : endISO;
+  if (cappedEnd < startISO) {
+    return toSummary(0, 0);
+  }
+  const { completed, total } = ledger.countPeriod(startISO, cappedEnd);
+  const summary = toSummary(completed, total);
+  if (!isQuantitativeHabit(ledger.habit)) {
+    return summary;
+  }
+  const valueTotal = ledger.valueTotal(startISO, cappedEnd);
+  return {
+    ...summary,
+    valueTotal: Number(valueTotal.toFixed(2)),
+    valueAverage: total === 0 ? 0 : Number((valueTotal / total).toFixed(2))
+  };
+}
+
+function summarizeAllPeriod(ledgers: HabitLedger[], startISO: string, endISO: string, todayISO: string) {
+  const cappedEnd = endISO > todayISO ? todayISO : endISO;
+  if (cappedEnd < startISO) {
+    return toSummary(0, 0);
+  }
+  let completed = 0;
+  let total = 0;
+  for (const ledger of ledgers) {
+    const counts = ledger.countPeriod(startISO, cappedEnd);
+    completed += counts.completed;
+    total += counts.total;
+  }
+  return toSummary(completed, total);
+}
+
+/**
+ * Status of a whole day across habits: "none" when no habit was active (or paused),
+ * otherwise missed if any habit missed, done if at least one was done.
+ */
+export function combinedStatusOn(ledgers: HabitLedger[], dateISO: string): DayStatus | "none" {
+  let anyActive = false;
+  let anyDone = false;
+  for (const ledger of ledgers) {
+    if (!ledger.isActiveOn(dateISO)) continue;
+    anyActive = true;
+    const status = ledger.statusOn(dateISO);
+    if (status === "missed") return "missed";
+    if (status === "done") anyDone = true;
+  }
+  if (!anyActive) {
+    return ledgers.some((ledger) => isHabitPausedOnDate(ledger.habit, dateISO)) ? "skip" : "none";
+  }
+  return anyDone ? "done" : "skip";
+}
+
+/** Streak across all habits, starting from the earliest creation date. */
+export function combinedStreak(ledgers: HabitLedger[], todayISO: string) {
+  const firstDay = ledgers.reduce(
+    (earliest, ledger) => (ledger.habit.created_at < earliest ? ledger.habit.created_at : earliest),
+    todayISO
+  );
+  return computeStreak(firstDay, todayISO, (dateISO) => combinedStatusOn(ledgers, dateISO));
+}
+
+export function habitStreak(ledger: HabitLedger, todayISO: string) {
+  return computeStreak(ledger.habit.created_at, todayISO, (dateISO) => ledger.statusOn(dateISO));
+}
+
+export interface StreakHistory {
+  runs: Array<StreakRun & { current: boolean }>;
+  currentStreak: number;
+  longestStreak: number;
+  longestSetOn: string | null;
+  /** 1-based place of the current run among all runs by length (ties share a place); null without one. */
+  currentRank: number | null;
+}
+
+export function streakHistory(result: StreakResult): StreakHistory {
+  const lastIndex = result.currentStreak > 0 ? result.runs.length - 1 : -1;
+  return {
+    runs: result.runs.map((run, index) => ({ ...run, current: index === lastIndex })),
+    currentStreak: result.currentStreak,
+    longestStreak: result.longestStreak,
+    longestSetOn: result.longestSetOn,
+    currentRank:
+      lastIndex === -1 ? null : result.runs.filter((run) => run.length > result.currentStreak).length + 1
+  };
+}
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function weekdayExtremes(ledgers: HabitLedger[], range: SummaryRange, todayISO: string) {
+  const stats = WEEKDAY_NAMES.map((name) => ({ name, done: 0, total: 0, rate: 0 }));
+  const lastDay = range.end < todayISO ? range.end : todayISO;
+  let weekday = fromISODate(range.start).getUTCDay();
+  for (let iso = range.start; iso <= lastDay; iso = addDaysISO(iso, 1), weekday = (weekday + 1) % 7) {
+    for (const ledger of ledgers) {
+      const status = ledger.tallyOn(iso);
+      if (status === "skip") continue;
+      stats[weekday].total += 1;
+      if (status === "done") stats[weekday].done += 1;
+    }
+  }
+  stats.forEach((s) => {
+    s.rate = s.total === 0 ? 0 : Number(((s.done / s.total) * 100).toFixed(1));
+  });
+  return {
+    bestDay: [...stats].sort((a, b) => b.rate - a.rate)[0]?.name ?? "N/A",
+    missedDay: [...stats].sort((a, b) => a.rate - b.rate)[0]?.name ?? "N/A"
+  };
+}
+
+function compareHabits(ledgers: HabitLedger[], range: SummaryRange, todayISO: string): HabitComparisonItem[] {
+  return ledgers.map(({ habit }, index) => ({
+    habitId: habit.id,
+    name: habit.name,
+    consistency: summarizePeriod(
+      ledgers[index],
+      range.start > habit.created_at ? range.start : habit.created_at,
+      range.end,
+      todayISO
+    ).consistency,
+    category: habit.category ?? null,
+    color: habit.color ?? null
+  }));
+}
+
+function monthBounds(year: number, month: number) {
+  return { start: toISODate(new Date(Date.UTC(year, month, 1))), end: toISODate(endOfMonthUTC(year, month)) };
+}
+
+function currentPeriods(todayISO: string) {
+  const today = fromISODate(todayISO);
+  return {
+    weekStart: toISODate(startOfISOWeek(today)),
+    weekEnd: toISODate(endOfISOWeek(today)),
+    month: monthBounds(today.getUTCFullYear(), today.getUTCMonth())
+  };
+}
+
+/** Direction per habit that is still around today. */
+function habitTrends(ledgers: HabitLedger[], todayISO: string): HabitTrendItem[] {
+  const current = ledgers.filter(({ habit }) => !habit.deleted_on || habit.deleted_on > todayISO);
+  return current.map((ledger) => {
+    const { direction, rolling30, previous30 } = computeTrend(
+      (startISO, endISO) => summarizePeriod(ledger, startISO, endISO, todayISO),
+      todayISO,
+      DEFAULT_GOAL
+    );
+    return {
+      habitId: ledger.habit.id,
+      name: ledger.habit.name,
+      color: ledger.habit.color ?? null,
+      direction,
+      rolling30,
+      previous30
+    };
+  });
+}
+
+/** Rolling averages as of the end of a bucket; buckets that have not started yet get none. */
+function rollingFor(count: PeriodCounter, startISO: string, endISO: string, todayISO: string): RollingPoint {
+  return startISO > todayISO ? { rolling7: null, rolling30: null } : rollingAt(count, endISO, todayISO);
+}
+
+/** Before its creation a habit has no buckets, rather than empty quantitative totals. */
+function summarizeFromCreation(ledger: HabitLedger, startISO: string, endISO: string, todayISO: string) {
+  const effectiveStart = startISO > ledger.habit.created_at ? startISO : ledger.habit.created_at;
+  return effectiveStart > endISO ? toSummary(0, 0) : summarizePeriod(ledger, effectiveStart, endISO, todayISO);
+}
+
+/**
+ * Summary of one habit over `range`. `others` are the user's habits it is compared against.
+ * `monthly` covers the calendar year the range ends in; `weekly` and the current week/month follow today.
+ */
+export function summarizeHabit(
+  ledger: HabitLedger,
+  others: HabitLedger[],
+  range: SummaryRange,
+  todayISO: string,
+  goal = DEFAULT_GOAL
+): HabitSummary {
+  const { habit } = ledger;
+  const year = Number(range.end.slice(0, 4));
+  const current = currentPeriods(todayISO);
+  const count: PeriodCounter = (startISO, endISO) => summarizePeriod(ledger, startISO, endISO, todayISO);
+
+  const weekly = [];
+  for (let i = 7; i >= 0; i -= 1) {
+    const start = addDaysISO(current.weekStart, -i * 7);
+    const end = addDaysISO(start, 6);
+    weekly.push({
+      label: `${start} to ${end}`,
+      ...summarizePeriod(ledger, start, end, todayISO),
+      ...rollingFor(count, start, end, todayISO)
+    });
+  }
+
+  const monthly = [];
+  for (let month = 0; month < 12; month += 1) {
+    const { start, end } = monthBounds(year, month);
+    monthly.push({ label: monthLabel(year, month), ...summarizeFromCreation(ledger, start, end, todayISO) });
+  }
+
+  const { currentStreak, longestStreak, freezesRemaining, frozenDays } = habitStreak(ledger, todayISO);
+  const { bestDay, missedDay } = weekdayExtremes([ledger], range, todayISO);
+
+  return {
+    range,
+    year: summarizePeriod(
+      ledger,
+      range.start > habit.created_at ? range.start : habit.created_at,
+      range.end,
+      todayISO
+    ),
+    currentWeek: summarizePeriod(ledger, current.weekStart, current.weekEnd, todayISO),
+    currentMonth: summarizePeriod(ledger, current.month.start, current.month.end, todayISO),
+    weekly,
+    monthly,
+    currentStreak,
+    longestStreak,
+    freezesRemaining,
+    frozenDays,
+    lifetimeCompletions: ledger.countPeriod(habit.created_at, todayISO).completed,
+    bestDay,
+    missedDayInsight: `You miss this habit most on ${missedDay}.`,
+    habitComparison: compareHabits(others, range, todayISO),
+    periods: splitRange(range.start, range.end, range.granularity).map((bucket) => ({
+      ...bucket,
+      ...summarizeFromCreation(ledger, bucket.start, bucket.end, todayISO),
+      ...rollingFor(count, bucket.start, bucket.end, todayISO)
+    })),
+    trend: computeTrend(count, todayISO, goal),
+    habitTrends: habitTrends([ledger], todayISO)
+  };
+}
+
+/** Summary across all of `ledgers` over `range`, with the same calendar rules as summarizeHabit. */
+export function summarizeHabits(
+  ledgers: HabitLedger[],
+  range: SummaryRange,
+  todayISO: string,
+  goal = DEFAULT_GOAL
+): HabitSummary {
+  const year = Number(range.end.slice(0, 4));
+  const current = currentPeriods(todayISO);
+  const count: PeriodCounter = (startISO, endISO) => summarizeAllPeriod(ledgers, startISO, endISO, todayISO);
+
+  const weekly = [];
+  for (let i = 7; i >= 0; i -= 1) {
+    const start = addDaysISO(current.weekStart, -i * 7);
+    const end = addDaysISO(start, 6);
+    weekly.push({
+      label: `${start} to ${end}`,
+      ...summarizeAllPeriod(ledgers, start, end, todayISO),
+      ...rollingFor(count, start, end, todayISO)
+    });
+  }
+
+  const monthly = [];
+  for (let month = 0; month < 12; month += 1) {
+    const { start, end } = monthBounds(year, month);
+    monthly.push({ label: monthLabel(year, month), ...summarizeAllPeriod(ledgers, start, end, todayISO) });
+  }
+
+  const { currentStreak, longestStreak, freezesRemaining, frozenDays } = combinedStreak(ledgers, todayISO);
+  const { bestDay, missedDay } = weekdayExtremes(ledgers, range, todayISO);
+
+  return {
+    range,
+    year: summarizeAllPeriod(ledgers, range.start, range.end, todayISO),
+    currentWeek: summarizeAllPeriod(ledgers, current.weekStart, current.weekEnd, todayISO),
+    currentMonth: summarizeAllPeriod(ledgers, current.month.start, current.month.end, todayISO),
+    weekly,
+    monthly,
+    currentStreak,
+    longestStreak,
+    freezesRemaining,
+    frozenDays,
+    lifetimeCompletions: ledgers.reduce(
+      (sum, ledger) => sum + ledger.countPeriod(ledger.habit.created_at, todayISO).completed,
+      0
+    ),
+    bestDay,
+    missedDayInsight: `You miss your habits most on ${missedDay}.`,
+    habitComparison: compareHabits(ledgers, range, todayISO),
+    periods: splitRange(range.start, range.end, range.granularity).map((bucket) => ({
+      ...bucket,
+      ...summarizeAllPeriod(ledgers, bucket.start, bucket.end, todayISO),
+      ...rollingFor(count, bucket.start, bucket.end, todayISO)
+    })),
+    trend: computeTrend(count, todayISO, goal),
+    habitTrends: habitTrends(ledgers, todayISO)
+  };
+}
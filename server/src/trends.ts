@@ -0,0 +1,114 @@
+import { addDaysISO, daysBetweenISO, endOfMonthUTC, fromISODate, toISODate } from "./dates.js";
+import type { PeriodSummary } from "./summary.js";
+
+/** Completed and due days in [startISO, endISO], already capped at today. */
+export type PeriodCounter = (startISO: string, endISO: string) => PeriodSummary;
+
+export type TrendDirection = "up" | "down" | "flat";
+
+export interface Trend {
+  /** rolling30 compared with previous30, the 30 days before it. */
+  direction: TrendDirection;
+  rolling7: number;
+  rolling30: number;
+  previous30: number;
+  /** Where the calendar year ends up if the last 30 days' pace holds. */
+  projectedYearEnd: number;
+  monthGoal: MonthGoal;
+}
+
+export interface MonthGoal {
+  goal: number;
+  completed: number;
+  total: number;
+  /** Due days still ahead this month, estimated from the last 30 days. */
+  remainingDue: number;
+  needed: number;
+  reachable: boolean;
+}
+
+export interface RollingPoint {
+  rolling7: number | null;
+  rolling30: number | null;
+}
+
+export const DEFAULT_GOAL = 80;
+const TREND_WINDOW_DAYS = 30;
+/** Changes smaller than this many percentage points count as flat. */
+const FLAT_THRESHOLD = 5;
+
+export function parseGoalInput(value: unknown): { goal: number } | { error: string } {
+  if (value === undefined || value === "") return { goal: DEFAULT_GOAL };
+  const goal = Number(value);
+  if (!Number.isFinite(goal) || goal <= 0 || goal > 100) {
+    return { error: "goal must be a percentage between 1 and 100." };
+  }
+  return { goal };
+}
+
+function consistency(summary: PeriodSummary) {
+  return summary.total === 0 ? 0 : summary.completed / summary.total;
+}
+
+function percent(ratio: number) {
+  return Number((ratio * 100).toFixed(1));
+}
+
+/** Consistency over the 7 and 30 days ending on `endISO` (at most today); null when nothing was due. */
+export function rollingAt(count: PeriodCounter, endISO: string, todayISO: string): RollingPoint {
+  if (endISO > todayISO) endISO = todayISO;
+  const last7 = count(addDaysISO(endISO, -6), endISO);
+  const last30 = count(addDaysISO(endISO, -29), endISO);
+  return {
+    rolling7: last7.total === 0 ? null : percent(consistency(last7)),
+    rolling30: last30.total === 0 ? null : percent(consistency(last30))
+  };
+}
+
+function trendDirection(recent: number, previous: number): TrendDirection {
+  if (recent - previous >= FLAT_THRESHOLD) return "up";
+  if (previous - recent >= FLAT_THRESHOLD) return "down";
+  return "flat";
+}
+
+/**
+ * Trend and forecast as of today. Future due days are estimated from how many days were due
+ * over the last 30, so weekly quotas and rest days carry over into the forecast.
+ */
+export function computeTrend(count: PeriodCounter, todayISO: string, goal: number): Trend {
+  const recentStart = addDaysISO(todayISO, 1 - TREND_WINDOW_DAYS);
+  const recent = count(recentStart, todayISO);
+  const previous = count(addDaysISO(recentStart, -TREND_WINDOW_DAYS), addDaysISO(recentStart, -1));
+  const pace = consistency(recent);
+  const duePerDay = recent.total / TREND_WINDOW_DAYS;
+
+  const today = fromISODate(todayISO);
+  const yearToDate = count(`${todayISO.slice(0, 4)}-01-01`, todayISO);
+  const yearDueAhead = duePerDay * daysBetweenISO(todayISO, `${todayISO.slice(0, 4)}-12-31`);
+  const projectedTotal = yearToDate.total + yearDueAhead;
+  const projectedYearEnd =
+    projectedTotal === 0 ? 0 : percent((yearToDate.completed + yearDueAhead * pace) / projectedTotal);
+
+  const monthEnd = toISODate(endOfMonthUTC(today.getUTCFullYear(), today.getUTCMonth()));
+  const monthToDate = count(`${todayISO.slice(0, 7)}-01`, todayISO);
+  const remainingDue = Math.round(duePerDay * daysBetweenISO(todayISO, monthEnd));
+  const needed = Math.max(0, Math.ceil((goal * (monthToDate.total + remainingDue)) / 100) - monthToDate.completed);
+
+  const rolling30 = percent(pace);
+  const previous30 = percent(consistency(previous));
+  return {
+    direction: recent.total === 0 || previous.total === 0 ? "flat" : trendDirection(rolling30, previous30),
+    rolling7: rollingAt(count, todayISO, todayISO).rolling7 ?? 0,
+    rolling30,
+    previous30,
+    projectedYearEnd,
+    monthGoal: {
+      goal,
+      completed: monthToDate.completed,
+      total: monthToDate.total,
+      remainingDue,
+      needed,
+      reachable: needed <= remainingDue
+    }
+  };
+}